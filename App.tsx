@@ -1,21 +1,59 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
 import { Layout } from './components/Layout';
 import { AgentCard } from './components/AgentCard';
 import { ConsoleLog } from './components/ConsoleLog';
 import { ReelPlayer } from './components/ReelPlayer';
+import { ReelExport } from './components/ReelExport';
+import { ProjectBrowser } from './components/ProjectBrowser';
+import { BiblePanel } from './components/BiblePanel';
+import { StoryboardGrid } from './components/StoryboardGrid';
+import { BudgetPrompt } from './components/BudgetPrompt';
+import { TransitionPicker } from './components/TransitionPicker';
+import { TakeStrip } from './components/TakeStrip';
+import { ContinuityReport } from './components/ContinuityReport';
+import { PromptSafetyReport } from './components/PromptSafetyReport';
+import { BreakdownEditor } from './components/BreakdownEditor';
 import { 
   ScriptScene, 
   AgentLog, 
   AgentRole, 
-  SceneStatus 
+  SceneStatus,
+  ProviderId,
+  ParseMode,
+  GenerationConfig,
+  BibleEntry,
+  StoryboardDecision,
+  SpendEntry,
+  SceneTransition,
+  CaptionLine,
+  ProjectMeta,
+  PromptRewrite
 } from './types';
+import { PROVIDERS, getProvider } from './services/providers';
+import { LOCAL_PARSERS } from './services/scriptParser';
+import { parseFountain, exportFountain } from './services/fountain';
+import { downloadBlob, downloadText, toFileStem } from './services/download';
+import { exportTimelineBundle } from './services/timeline';
+import { transitionInto } from './services/transitions';
+import { renumberScenes } from './services/breakdown';
+import { circleTake, isStaleExtension } from './services/takes';
+import { sceneOfMessage, toTraceJsonl, fromTraceJsonl } from './services/trace';
+import { findSceneEntries } from './services/bible';
+import { createDirector, Director, DirectorEvent } from './services/director';
+import { IN_FLIGHT, nextStatus } from './services/sceneMachine';
+import { estimateProductionCost, sumSpend, formatUsd } from './services/costs';
 import { 
-  parseScriptWithGemini, 
-  checkContinuity, 
-  generateVeoVideo,
-  generateStageHandImage,
-  fetchImageAsBase64
-} from './services/geminiService';
+  DEFAULT_GENERATION_CONFIG, 
+  RESOLUTIONS, 
+  ASPECT_RATIOS, 
+  EXTENSION_RESOLUTION 
+} from './services/generationConfig';
+import { 
+  saveProject, 
+  loadProject, 
+  saveTakeVideo, 
+  deriveProjectName 
+} from './services/projectStore';
 
 // Default script placeholder
 const DEFAULT_SCRIPT = `# Holmes on Code: The Bargain Build Disaster
@@ -36,41 +74,100 @@ SCENE 4: Structural Violation
 Visual: Mike points at a server rack that is literally held together with duct tape and glowing red.
 Context: Analogy for bypassing security layers for analytics.`;
 
+// Provider used on load; set GENERATION_PROVIDER=MOCK in .env.local to develop offline
+const DEFAULT_PROVIDER = (Object.values(ProviderId) as string[]).includes(process.env.GENERATION_PROVIDER || '')
+  ? process.env.GENERATION_PROVIDER as ProviderId
+  : ProviderId.GEMINI;
+
+// Archiving a take's clip gives up after this long rather than hanging on a stalled download
+const ARCHIVE_TIMEOUT_MS = 5 * 60 * 1000;
+
+// An over-budget call waiting on the user
+interface BudgetRequest {
+  message: string;
+  resolve: (allowed: boolean) => void;
+}
+
 export default function App() {
   // State
+  const [providerId, setProviderId] = useState<ProviderId>(DEFAULT_PROVIDER);
   const [apiKeyReady, setApiKeyReady] = useState(false);
   const [scriptText, setScriptText] = useState(DEFAULT_SCRIPT);
+  const [parseMode, setParseMode] = useState<ParseMode>(ParseMode.STRUCTURED);
+  const [generationConfig, setGenerationConfig] = useState<GenerationConfig>(DEFAULT_GENERATION_CONFIG);
+  const [bible, setBible] = useState<BibleEntry[]>([]);
+  const [showBible, setShowBible] = useState(false);
   const [scenes, setScenes] = useState<ScriptScene[]>([]);
   const [logs, setLogs] = useState<AgentLog[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [project, setProject] = useState<ProjectMeta | null>(null);
+  const [showProjectBrowser, setShowProjectBrowser] = useState(false);
+  const [storyboardMode, setStoryboardMode] = useState(false);
+  const [autoFixContinuity, setAutoFixContinuity] = useState(false);
+  const [restyleMatchedFrames, setRestyleMatchedFrames] = useState(false);
+  const [rewriteBlockedPrompts, setRewriteBlockedPrompts] = useState(false);
+  const [budgetUsd, setBudgetUsd] = useState<number | undefined>(undefined);
+  const [spend, setSpend] = useState<SpendEntry[]>([]);
+  const [budgetRequest, setBudgetRequest] = useState<BudgetRequest | null>(null);
+  const [concurrency, setConcurrency] = useState(2);
+  const [showStoryboard, setShowStoryboard] = useState(false);
   
   // Player State
   const [showReelPlayer, setShowReelPlayer] = useState(false);
+  const [showReelExport, setShowReelExport] = useState(false);
+  const [breakdown, setBreakdown] = useState<ScriptScene[] | null>(null); // Parsed scenes awaiting review
+  const [isExportingTimeline, setIsExportingTimeline] = useState(false);
   
   // Agent Activity State
   const [activeAgent, setActiveAgent] = useState<AgentRole | null>(null);
   const [agentMessage, setAgentMessage] = useState<string>("");
 
-  // Refs for loop control
-  const stopSignalRef = useRef(false);
+  // The running Director, for Stop
+  const directorRef = useRef<Director | null>(null);
+  const traceIdRef = useRef<string | undefined>(undefined); // The Director run new log entries belong to
+  const saveFailedRef = useRef(false); // The last save of the open production failed
+
+  // Live validation of locally parsed formats so errors show before pressing Action
+  const localParse = useMemo(() => LOCAL_PARSERS[parseMode]?.(scriptText), [parseMode, scriptText]);
+  const scriptErrors = localParse?.errors ?? [];
 
-  // Check API Key on Mount
+  // Projected spend for what Action (or Resume / Shoot) would produce next
+  const estimate = useMemo(() => {
+    const pending = project ? scenes : localParse?.scenes ?? [];
+    return estimateProductionCost(getProvider(providerId).models, pending);
+  }, [providerId, project, scenes, localParse]);
+
+  // Refs for file import
+  const fountainInputRef = useRef<HTMLInputElement>(null);
+
+  // Check the selected provider is usable (API key for Gemini, always for Mock)
   useEffect(() => {
+    let cancelled = false;
     const checkKey = async () => {
-      // 1. Check environment variable first
-      if (process.env.API_KEY) {
-        setApiKeyReady(true);
-        return;
-      }
-
-      // 2. Check for AI Studio environment
-      // Cast to any to avoid TS errors if definitions are missing or incorrect
-      if ((window as any).aistudio && await (window as any).aistudio.hasSelectedApiKey()) {
-        setApiKeyReady(true);
-      }
+      const ready = await getProvider(providerId).isReady();
+      if (!cancelled) setApiKeyReady(ready);
     };
     checkKey();
-  }, []);
+    return () => { cancelled = true; };
+  }, [providerId]);
+
+  const handleOpenProject = async (id: string) => {
+    const saved = await loadProject(id);
+    if (!saved) return;
+
+    const { scenes: savedScenes, logs: savedLogs, bible: savedBible, spend: savedSpend, updatedAt, ...meta } = saved;
+    // A production saved mid-run (e.g. the tab was closed) has scenes that will never finish
+    setProject(meta);
+    setScriptText(saved.scriptText);
+    setProviderId(saved.providerId);
+    setGenerationConfig(saved.generationConfig ?? DEFAULT_GENERATION_CONFIG);
+    setBible(savedBible ?? []);
+    setBudgetUsd(saved.budgetUsd);
+    setSpend(savedSpend ?? []);
+    setScenes(savedScenes.map(s => IN_FLIGHT.includes(s.status) ? { ...s, status: nextStatus(s.id, s.status, { type: 'CANCEL' }) } : s));
+    setLogs(savedLogs);
+    setShowProjectBrowser(false);
+  };
 
   const handleSelectKey = async () => {
     if ((window as any).aistudio) {
@@ -86,142 +183,303 @@ export default function App() {
   };
 
   // Logger
-  const addLog = useCallback((role: AgentRole, message: string, status: 'info' | 'success' | 'warning' | 'error' | 'thinking' = 'info') => {
-    setLogs(prev => [...prev, {
+  const addLog = useCallback((
+    role: AgentRole,
+    message: string,
+    status: 'info' | 'success' | 'warning' | 'error' | 'thinking' = 'info',
+    metadata?: Record<string, any>
+  ) => {
+    const entry: AgentLog = {
       id: crypto.randomUUID(),
       timestamp: new Date(),
       role,
       message,
-      status
-    }]);
+      metadata,
+      status,
+      sceneId: metadata?.sceneId ?? sceneOfMessage(message),
+      traceId: traceIdRef.current // Read now; the run may be over by the time React applies the update
+    };
+    setLogs(prev => [...prev, entry]);
     setAgentMessage(message);
     setActiveAgent(role);
   }, []);
 
+  // Persist the open production whenever scenes or logs change (debounced)
+  useEffect(() => {
+    if (!project) return;
+    const timer = setTimeout(() => {
+      saveProject({ ...project, scenes, logs, bible, spend, updatedAt: new Date() })
+        .then(() => { saveFailedRef.current = false; })
+        .catch((err: any) => {
+          // Logged once until a save succeeds again: the log entry itself triggers another save
+          if (saveFailedRef.current) return;
+          saveFailedRef.current = true;
+          addLog(AgentRole.DIRECTOR, `Could not save the production locally (${err.message}). Changes since the last save may be lost.`, 'warning');
+        });
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [project, scenes, logs, bible, spend, addLog]);
+
   // -------------------------------------------------------------------------
-  // ORCHESTRATOR (The Director Agent Logic)
+  // ORCHESTRATOR: the Director (services/director) runs the agents; its events drive the UI
   // -------------------------------------------------------------------------
+
+  const handleDirectorEvent = (production: ProjectMeta, event: DirectorEvent) => {
+    switch (event.type) {
+      case 'run':
+        if (event.phase === 'start') {
+          traceIdRef.current = event.traceId;
+          setIsProcessing(true);
+          setProject(production);
+        } else {
+          directorRef.current = null;
+          traceIdRef.current = undefined;
+          setIsProcessing(false);
+          setActiveAgent(null);
+        }
+        break;
+      case 'log':
+        setLogs(prev => [...prev, event.entry]);
+        // Agent call spans go straight into the log, without taking over the agent status line
+        if (!event.entry.span) {
+          setAgentMessage(event.entry.message);
+          setActiveAgent(event.entry.role);
+        }
+        break;
+      case 'agent':
+        setActiveAgent(event.role);
+        break;
+      case 'scenes':
+        setScenes(event.scenes);
+        break;
+      case 'scene':
+        updateSceneData(event.sceneId, event.data);
+        break;
+      case 'take':
+        // Archive the clip so the production survives a refresh
+        saveTakeVideo(production.id, event.take.id, event.take.videoUri, AbortSignal.timeout(ARCHIVE_TIMEOUT_MS)).catch((err: any) => {
+          addLog(AgentRole.DIRECTOR, `Scene ${event.sceneId}: Could not archive video locally (${err.message}).`, 'warning');
+        });
+        break;
+      case 'bible':
+        setBible(event.bible);
+        break;
+      case 'spend':
+        setSpend(prev => [...prev, event.entry]);
+        break;
+      case 'storyboard':
+        setShowStoryboard(true);
+        break;
+    }
+  };
+
+  // A Director for one run of `production`, with the settings as they are now
+  const startDirector = (production: ProjectMeta): Director | undefined => {
+    if (!apiKeyReady) return undefined;
+
+    const director = createDirector({
+      provider: getProvider(providerId),
+      production,
+      settings: { concurrency, storyboardMode, autoFixContinuity, restyleMatchedFrames, rewriteBlockedPrompts },
+      bible,
+      spent: production.id === project?.id ? sumSpend(spend) : 0,
+      onEvent: (event) => handleDirectorEvent(production, event),
+      confirmBudget: async (message) => {
+        const allowed = await new Promise<boolean>(resolve => setBudgetRequest({ message, resolve }));
+        setBudgetRequest(null);
+        return allowed;
+      }
+    });
+    directorRef.current = director;
+    return director;
+  };
+
+  const newProduction = (): ProjectMeta => ({
+    id: crypto.randomUUID(),
+    name: deriveProjectName(scriptText),
+    scriptText,
+    providerId,
+    generationConfig,
+    budgetUsd,
+    createdAt: new Date()
+  });
+
   const runDirector = async () => {
     if (!apiKeyReady) return;
-    
-    setIsProcessing(true);
-    stopSignalRef.current = false;
+
     setLogs([]);
     setScenes([]);
+    setSpend([]);
+    setBreakdown(null);
 
-    try {
-      // 1. PARSE PHASE
-      addLog(AgentRole.DIRECTOR, "Initiating pre-production. Delegating script parsing...");
-      setActiveAgent(AgentRole.PARSER);
-      
-      const parsedScenes = await parseScriptWithGemini(scriptText);
-      setScenes(parsedScenes);
-      addLog(AgentRole.PARSER, `Script parsed successfully. Identified ${parsedScenes.length} scenes.`, 'success');
+    await startDirector(newProduction())?.direct(parseMode);
+  };
 
-      // 2. PRODUCTION LOOP
-      let previousScene: ScriptScene | null = null;
+  // First phase of the two-phase workflow: parse into an editable scene list without shooting
+  const runBreakdown = async () => {
+    if (!apiKeyReady) return;
 
-      for (let i = 0; i < parsedScenes.length; i++) {
-        if (stopSignalRef.current) break;
+    setLogs([]);
+    setScenes([]);
+    setSpend([]);
 
-        const currentScene = parsedScenes[i];
-        
-        // Update status to analyzing
-        updateSceneStatus(currentScene.id, SceneStatus.ANALYZING);
-        
-        // A. CONTINUITY CHECK
-        addLog(AgentRole.DIRECTOR, `Scene ${currentScene.id}: Requesting Continuity QA check.`);
-        const continuityCheck = await checkContinuity(currentScene, previousScene);
-        
-        addLog(AgentRole.CONTINUITY_QA, 
-          `Scene ${currentScene.id} Analysis: ${continuityCheck.reasoning} -> Extension: ${continuityCheck.shouldExtend}`, 
-          continuityCheck.shouldExtend ? 'warning' : 'info'
-        );
-
-        // Update scene with decision
-        updateSceneData(currentScene.id, { 
-          feedback: continuityCheck.reasoning,
-          isExtension: continuityCheck.shouldExtend 
-        });
+    const parsed = await startDirector(newProduction())?.breakdown(parseMode);
+    if (parsed) setBreakdown(parsed);
+  };
 
-        let imageBase64: string | undefined = undefined;
+  // Second phase: produce the edited breakdown under the same production, numbered 1..n
+  const shootBreakdown = async () => {
+    if (!project || !breakdown) return;
+    const edited = renumberScenes(breakdown);
+    setBreakdown(null);
 
-        // B. STAGE HAND (If not extending)
-        // We only generate/fetch a start frame if we are creating a new video, not extending an existing one.
-        if (!continuityCheck.shouldExtend) {
-          updateSceneStatus(currentScene.id, SceneStatus.PREPARING_ASSETS);
-          addLog(AgentRole.DIRECTOR, `Scene ${currentScene.id}: Requesting Stage Hand for visual assets.`);
-          
-          try {
-            if (currentScene.imageUrl) {
-               addLog(AgentRole.STAGE_HAND, `Fetching reference image from URL: ${currentScene.imageUrl}`);
-               imageBase64 = await fetchImageAsBase64(currentScene.imageUrl);
-               addLog(AgentRole.STAGE_HAND, "Image retrieved successfully.", 'success');
-            } else {
-               addLog(AgentRole.STAGE_HAND, `No reference image provided. Generating start frame with Nano Banana...`);
-               imageBase64 = await generateStageHandImage(currentScene.visualPrompt);
-               addLog(AgentRole.STAGE_HAND, "Start frame generated successfully.", 'success');
-            }
-            
-            // Save the asset to the scene state so we can potentially display it (though not displaying strictly in UI yet)
-            updateSceneData(currentScene.id, { imageBase64 });
-
-          } catch (err: any) {
-             addLog(AgentRole.STAGE_HAND, `Asset preparation failed: ${err.message}. Proceeding with text-only generation.`, 'warning');
-             // Proceed without image if stage hand fails
-          }
-        }
+    await startDirector({ ...project, generationConfig, budgetUsd })?.shootBreakdown(edited);
+  };
 
-        // C. GENERATION
-        updateSceneStatus(currentScene.id, SceneStatus.GENERATING);
-        addLog(AgentRole.DIRECTOR, `Scene ${currentScene.id}: Greenlit for Veo generation.`);
+  // First scene that still needs producing; everything before it is kept as-is
+  const resumeIndex = scenes.findIndex(s => s.status !== SceneStatus.COMPLETED);
+  // Storyboarded productions go through the grid instead of Resume
+  const hasStoryboard = scenes.some(s => s.storyboardDecision);
+  const approvedCount = scenes.filter(s => s.storyboardDecision === StoryboardDecision.APPROVED && s.status !== SceneStatus.COMPLETED).length;
 
-        // Determine if we can actually extend (requires handle)
-        const canExtend = continuityCheck.shouldExtend && previousScene?.videoHandle;
-        
-        const videoResult = await generateVeoVideo(
-          currentScene,
-          previousScene?.videoHandle,
-          canExtend,
-          imageBase64,
-          (log) => addLog(log.role, log.message, log.status)
-        );
-
-        console.log('--- VEO GENERATION RESULT ---');
-        console.log('Scene ID:', currentScene.id);
-        console.log('Video URI:', videoResult.uri);
-        console.log('Full Result:', videoResult);
-        console.log('-----------------------------');
-
-        // Update Scene with Video
-        const updatedSceneData = {
-          videoUri: videoResult.uri, // Use raw URI (likely a signed GCS URL)
-          videoHandle: videoResult.handle, // Store for next iteration
-          status: SceneStatus.COMPLETED
-        };
-
-        updateSceneData(currentScene.id, updatedSceneData);
-        addLog(AgentRole.GENERATOR, `Scene ${currentScene.id} wrapped. Video ready.`, 'success');
-
-        // Update previousScene pointer (get the latest state)
-        previousScene = { ...currentScene, ...updatedSceneData };
-      }
+  const resumeDirector = async () => {
+    if (!project || resumeIndex === -1) return;
+    await startDirector({ ...project, generationConfig, budgetUsd })?.resume(scenes);
+  };
+
+  // Re-runs a single scene, then re-extends any scenes that extend from it so the chain stays linked
+  const regenerateScene = async (id: number) => {
+    if (!project) return;
+    await startDirector({ ...project, generationConfig, budgetUsd })?.regenerate(scenes, id);
+  };
+
+  // Has Safety QA rewrite a blocked scene's prompt, then regenerates the scene with it
+  const rewriteAndRetryScene = async (id: number) => {
+    if (!project) return;
+    await startDirector({ ...project, generationConfig, budgetUsd })?.rewriteAndRetry(scenes, id);
+  };
+
+  // Swaps a scene's prompt for the pre-flight suggestion, keeping the original in its rewrite history
+  const applyPromptSuggestion = (id: number) => {
+    setScenes(prev => prev.map(s => {
+      const suggestion = s.promptLint?.prompt === s.visualPrompt ? s.promptLint.suggestedPrompt : undefined;
+      if (s.id !== id || !s.promptLint || !suggestion) return s;
+      const rewrite: PromptRewrite = {
+        originalPrompt: s.visualPrompt,
+        rewrittenPrompt: suggestion,
+        reason: `Pre-flight: ${s.promptLint.risks.map(r => r.reason).join(' ')}`,
+        timestamp: new Date()
+      };
+      return { ...s, visualPrompt: suggestion, promptLint: undefined, promptRewrites: [...(s.promptRewrites ?? []), rewrite] };
+    }));
+  };
+
+  // Generator pass over the storyboard: approved frames are shot in order, everything else is left alone
+  const shootApproved = async () => {
+    if (!project) return;
+    setShowStoryboard(false);
+    await startDirector({ ...project, generationConfig, budgetUsd })?.shootApproved(scenes);
+  };
+
+  // Re-runs Continuity QA and Stage Hand for one storyboard frame, e.g. after its prompt was edited
+  const rerollFrame = async (id: number) => {
+    if (!project) return;
+    await startDirector({ ...project, generationConfig, budgetUsd })?.reroll(scenes, id);
+  };
 
-      addLog(AgentRole.DIRECTOR, "That's a wrap! All scenes processed.", 'success');
+  const handleImportFountain = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
 
-    } catch (error: any) {
-      addLog(AgentRole.DIRECTOR, `Critical failure: ${error.message}`, 'error');
+    setScriptText(await file.text());
+    setParseMode(ParseMode.FOUNTAIN);
+  };
+
+  const handleExportFountain = () => {
+    // Prefer the Fountain title page when the script came from one
+    const title = (parseMode === ParseMode.FOUNTAIN && parseFountain(scriptText).title) || project?.name || deriveProjectName(scriptText);
+    downloadText(`${toFileStem(title)}.fountain`, exportFountain(scenes, title));
+  };
+
+  // Bundles the completed clips with EDL, FCPXML and OTIO timelines for finishing in an NLE
+  const handleExportTimeline = async () => {
+    const title = project?.name ?? deriveProjectName(scriptText);
+    setIsExportingTimeline(true);
+    try {
+      const bundle = await exportTimelineBundle(title, scenes.filter(s => s.status === SceneStatus.COMPLETED && s.videoUri));
+      downloadBlob(`${toFileStem(title)}-timeline.zip`, bundle);
+      addLog(AgentRole.DIRECTOR, 'Timeline exported as EDL, FCPXML and OTIO.', 'success');
+    } catch (err: any) {
+      addLog(AgentRole.DIRECTOR, `Timeline export failed: ${err.message}`, 'error');
     } finally {
-      setIsProcessing(false);
-      setActiveAgent(null);
+      setIsExportingTimeline(false);
     }
   };
 
-  // Helper to update scene state safely
-  const updateSceneStatus = (id: number, status: SceneStatus) => {
-    setScenes(prev => prev.map(s => s.id === id ? { ...s, status } : s));
+  // Traces are JSONL in the Genkit trace format, one line per Director run
+  const handleExportTrace = () => {
+    const title = project?.name ?? deriveProjectName(scriptText);
+    downloadText(`${toFileStem(title)}-trace.jsonl`, toTraceJsonl(logs), 'application/jsonl');
+  };
+
+  const handleImportTrace = async (file: File) => {
+    try {
+      const imported = fromTraceJsonl(await file.text());
+      setLogs(prev => {
+        const known = new Set(prev.map(log => log.id));
+        return [...prev, ...imported.filter(log => !known.has(log.id))]
+          .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+      });
+      addLog(AgentRole.DIRECTOR, `Imported ${imported.length} trace entries from ${file.name}.`, 'success');
+    } catch (err: any) {
+      addLog(AgentRole.DIRECTOR, `Trace import failed: ${err.message}`, 'error');
+    }
+  };
+
+  const updateSceneCaption = (id: number, lineIndex: number, line: CaptionLine) => {
+    setScenes(prev => prev.map(s => s.id === id
+      ? { ...s, captions: (s.captions || []).map((caption, i) => i === lineIndex ? line : caption) }
+      : s));
+  };
+
+  // Makes one of a scene's takes the one the gallery, Reel Player and exports use
+  const circleSceneTake = (id: number, takeId: string) => {
+    const index = scenes.findIndex(s => s.id === id);
+    const scene = scenes[index];
+    const take = scene?.takes?.find(t => t.id === takeId);
+    if (!take) return;
+
+    const circled = { ...scene, ...circleTake(scene, takeId) };
+    setScenes(prev => prev.map(s => s.id === id ? { ...s, ...circleTake(s, takeId) } : s));
+    addLog(AgentRole.DIRECTOR, `Scene ${id}: Circled take ${take.number}.`);
+
+    const next = scenes[index + 1];
+    if (next && isStaleExtension(next, circled)) {
+      addLog(AgentRole.DIRECTOR, `Scene ${next.id} extends a different take of Scene ${id}. Regenerate it to relink the extension.`, 'warning');
+    }
+  };
+
+  const updateSceneTransition = (id: number, transitionIn: SceneTransition) => {
+    setScenes(prev => prev.map(s => s.id === id ? { ...s, transitionIn } : s));
+  };
+
+  // Sets or clears (value undefined) a single per-scene generation override
+  const updateSceneOverride = <K extends keyof GenerationConfig>(id: number, key: K, value: GenerationConfig[K] | undefined) => {
+    setScenes(prev => prev.map(s => {
+      if (s.id !== id) return s;
+      const { [key]: _previous, ...rest } = s.generationOverrides ?? {};
+      const generationOverrides = value === undefined ? rest : { ...rest, [key]: value };
+      return { ...s, generationOverrides: Object.keys(generationOverrides).length > 0 ? generationOverrides : undefined };
+    }));
+  };
+
+  const handleStop = () => {
+    directorRef.current?.stop();
+    budgetRequest?.resolve(false);
   };
 
+  // Helper to update scene state safely
   const updateSceneData = (id: number, data: Partial<ScriptScene>) => {
     setScenes(prev => prev.map(s => s.id === id ? { ...s, ...data } : s));
   };
@@ -235,16 +493,90 @@ export default function App() {
       {showReelPlayer && (
         <ReelPlayer 
           scenes={scenes} 
+          fileStem={toFileStem(project?.name ?? deriveProjectName(scriptText))}
+          onUpdateCaption={updateSceneCaption}
           onClose={() => setShowReelPlayer(false)} 
         />
       )}
 
+      {breakdown && !isProcessing && (
+        <BreakdownEditor
+          scenes={breakdown}
+          canShoot={apiKeyReady}
+          onChange={setBreakdown}
+          onShoot={shootBreakdown}
+          onClose={() => setBreakdown(null)}
+        />
+      )}
+
+      {showReelExport && (
+        <ReelExport
+          scenes={scenes.filter(s => s.status === SceneStatus.COMPLETED && s.videoUri)}
+          fileStem={toFileStem(project?.name ?? deriveProjectName(scriptText))}
+          onClose={() => setShowReelExport(false)}
+        />
+      )}
+
+      {showBible && (
+        <BiblePanel
+          entries={bible}
+          onChange={setBible}
+          onClose={() => setShowBible(false)}
+        />
+      )}
+
+      {showStoryboard && (
+        <StoryboardGrid
+          scenes={scenes}
+          isProcessing={isProcessing}
+          canShoot={apiKeyReady && approvedCount > 0}
+          approvedCount={approvedCount}
+          approvedEstimate={estimate.scenes.filter((_, i) => scenes[i]?.storyboardDecision === StoryboardDecision.APPROVED).reduce((sum, e) => sum + e.total, 0)}
+          onUpdateScene={updateSceneData}
+          onReroll={rerollFrame}
+          onShoot={shootApproved}
+          onClose={() => setShowStoryboard(false)}
+        />
+      )}
+
+      {budgetRequest && (
+        <BudgetPrompt
+          message={budgetRequest.message}
+          onAllow={() => budgetRequest.resolve(true)}
+          onStop={() => budgetRequest.resolve(false)}
+        />
+      )}
+
+      {showProjectBrowser && (
+        <ProjectBrowser
+          currentProjectId={project?.id ?? null}
+          onOpen={handleOpenProject}
+          onClose={() => setShowProjectBrowser(false)}
+        />
+      )}
+
       {/* LEFT PANEL: INPUT & CONTROLS */}
       <div className="w-1/3 border-r border-zinc-800 flex flex-col bg-zinc-900/30">
         <div className="p-6 flex-1 flex flex-col overflow-hidden">
           <div className="mb-4 flex justify-between items-center">
-             <h2 className="text-sm font-bold uppercase tracking-wider text-zinc-400">Script Input</h2>
-             {!apiKeyReady ? (
+             <div className="flex items-center gap-3">
+               <h2 className="text-sm font-bold uppercase tracking-wider text-zinc-400">Script Input</h2>
+               <button
+                 onClick={() => setShowProjectBrowser(true)}
+                 disabled={isProcessing}
+                 className="text-[10px] uppercase tracking-wider font-mono text-zinc-500 hover:text-indigo-400 disabled:opacity-30 disabled:hover:text-zinc-500"
+               >
+                 Projects
+               </button>
+               <button
+                 onClick={() => setShowBible(true)}
+                 disabled={isProcessing}
+                 className="text-[10px] uppercase tracking-wider font-mono text-zinc-500 hover:text-indigo-400 disabled:opacity-30 disabled:hover:text-zinc-500"
+               >
+                 Bible ({bible.length})
+               </button>
+             </div>
+             {!apiKeyReady && providerId === ProviderId.GEMINI ? (
                <button 
                 onClick={handleSelectKey}
                 className="text-xs bg-red-600 hover:bg-red-500 text-white px-3 py-1 rounded transition-colors"
@@ -255,29 +587,227 @@ export default function App() {
                <span className="text-xs text-green-500 font-mono">● System Online</span>
              )}
           </div>
+          <div className="mb-4 flex items-center gap-3">
+            <label htmlFor="provider" className="text-[10px] uppercase tracking-wider text-zinc-500 font-mono">Backend</label>
+            <select
+              id="provider"
+              className="flex-1 bg-zinc-950 border border-zinc-800 rounded px-2 py-1 text-xs font-mono text-zinc-300 focus:outline-none focus:border-indigo-500"
+              value={providerId}
+              onChange={(e) => setProviderId(e.target.value as ProviderId)}
+              disabled={isProcessing}
+            >
+              {Object.values(PROVIDERS).map(p => (
+                <option key={p.id} value={p.id}>{p.label}</option>
+              ))}
+            </select>
+          </div>
+          <div className="mb-4 flex items-center gap-3">
+            <span className="text-[10px] uppercase tracking-wider text-zinc-500 font-mono">Parser</span>
+            <div className="flex-1 flex rounded border border-zinc-800 overflow-hidden">
+              {[
+                { mode: ParseMode.STRUCTURED, label: 'Structured' },
+                { mode: ParseMode.FOUNTAIN, label: 'Fountain' },
+                { mode: ParseMode.FREEFORM, label: 'Freeform (AI)' }
+              ].map(option => (
+                <button
+                  key={option.mode}
+                  onClick={() => setParseMode(option.mode)}
+                  disabled={isProcessing}
+                  className={`flex-1 px-2 py-1 text-xs font-mono transition-colors ${
+                    parseMode === option.mode ? 'bg-indigo-600 text-white' : 'bg-zinc-950 text-zinc-400 hover:text-zinc-200'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            <button
+              onClick={() => fountainInputRef.current?.click()}
+              disabled={isProcessing}
+              className="text-[10px] uppercase tracking-wider font-mono text-zinc-500 hover:text-indigo-400 disabled:opacity-30 disabled:hover:text-zinc-500"
+            >
+              Import
+            </button>
+            <input
+              ref={fountainInputRef}
+              type="file"
+              accept=".fountain,.spmd,.txt"
+              className="hidden"
+              onChange={handleImportFountain}
+            />
+          </div>
+          <div className="mb-4">
+            <div className="flex items-center gap-3">
+              <span className="text-[10px] uppercase tracking-wider text-zinc-500 font-mono">Output</span>
+              <select
+                className="flex-1 bg-zinc-950 border border-zinc-800 rounded px-2 py-1 text-xs font-mono text-zinc-300 focus:outline-none focus:border-indigo-500"
+                value={generationConfig.resolution}
+                onChange={(e) => setGenerationConfig(c => ({ ...c, resolution: e.target.value as GenerationConfig['resolution'] }))}
+                disabled={isProcessing}
+              >
+                {RESOLUTIONS.map(r => <option key={r} value={r}>{r}</option>)}
+              </select>
+              <select
+                className="flex-1 bg-zinc-950 border border-zinc-800 rounded px-2 py-1 text-xs font-mono text-zinc-300 focus:outline-none focus:border-indigo-500"
+                value={generationConfig.aspectRatio}
+                onChange={(e) => setGenerationConfig(c => ({ ...c, aspectRatio: e.target.value as GenerationConfig['aspectRatio'] }))}
+                disabled={isProcessing}
+              >
+                {ASPECT_RATIOS.map(a => <option key={a} value={a}>{a}</option>)}
+              </select>
+            </div>
+            {generationConfig.resolution !== EXTENSION_RESOLUTION && (
+              <p className="mt-1 text-[10px] font-mono text-zinc-600">
+                Fresh shots render at {generationConfig.resolution}; extensions always render at {EXTENSION_RESOLUTION}, and each one is flagged on its scene.
+              </p>
+            )}
+          </div>
+          <div className="mb-4 flex items-center gap-3">
+            <label htmlFor="budget" className="text-[10px] uppercase tracking-wider text-zinc-500 font-mono">Budget $</label>
+            <input
+              id="budget"
+              type="number"
+              min={0}
+              step={0.5}
+              placeholder="No cap"
+              className="w-24 bg-zinc-950 border border-zinc-800 rounded px-2 py-1 text-xs font-mono text-zinc-300 focus:outline-none focus:border-indigo-500"
+              value={budgetUsd ?? ''}
+              onChange={(e) => setBudgetUsd(e.target.value === '' ? undefined : Math.max(0, Number(e.target.value)))}
+              disabled={isProcessing}
+            />
+            <span className={`ml-auto text-[10px] font-mono ${
+              budgetUsd !== undefined && sumSpend(spend) + estimate.total > budgetUsd ? 'text-amber-400' : 'text-zinc-500'
+            }`}>
+              {estimate.scenes.length > 0
+                ? `Projected ${formatUsd(estimate.total)}${estimate.scenes.some(e => e.assumesWorstCase) ? ' (worst case)' : ''}`
+                : 'Projected after parsing'}
+              {spend.length > 0 && ` · Spent ${formatUsd(sumSpend(spend))}`}
+            </span>
+          </div>
+          <div className="mb-4 flex items-center gap-3">
+            <label className="flex items-center gap-2 text-[10px] uppercase tracking-wider text-zinc-500 font-mono cursor-pointer">
+              <input
+                type="checkbox"
+                className="accent-indigo-500"
+                checked={storyboardMode}
+                onChange={(e) => setStoryboardMode(e.target.checked)}
+                disabled={isProcessing}
+              />
+              Storyboard first
+            </label>
+            <label
+              className="flex items-center gap-2 text-[10px] uppercase tracking-wider text-zinc-500 font-mono cursor-pointer"
+              title="Regenerate a start frame once when visual continuity QA finds a high-severity break"
+            >
+              <input
+                type="checkbox"
+                className="accent-indigo-500"
+                checked={autoFixContinuity}
+                onChange={(e) => setAutoFixContinuity(e.target.checked)}
+                disabled={isProcessing}
+              />
+              Auto-fix continuity
+            </label>
+            <label
+              className="flex items-center gap-2 text-[10px] uppercase tracking-wider text-zinc-500 font-mono cursor-pointer"
+              title="Have Stage Hand re-style the previous clip's last frame for shots that start from it"
+            >
+              <input
+                type="checkbox"
+                className="accent-indigo-500"
+                checked={restyleMatchedFrames}
+                onChange={(e) => setRestyleMatchedFrames(e.target.checked)}
+                disabled={isProcessing}
+              />
+              Restyle matched frames
+            </label>
+            <label
+              className="flex items-center gap-2 text-[10px] uppercase tracking-wider text-zinc-500 font-mono cursor-pointer"
+              title="When Veo or the image model refuses a prompt, have Safety QA rewrite it and try once more"
+            >
+              <input
+                type="checkbox"
+                className="accent-indigo-500"
+                checked={rewriteBlockedPrompts}
+                onChange={(e) => setRewriteBlockedPrompts(e.target.checked)}
+                disabled={isProcessing}
+              />
+              Auto-rewrite blocked prompts
+            </label>
+            <label htmlFor="concurrency" className="ml-auto text-[10px] uppercase tracking-wider text-zinc-500 font-mono">Parallel shots</label>
+            <select
+              id="concurrency"
+              className="bg-zinc-950 border border-zinc-800 rounded px-2 py-1 text-xs font-mono text-zinc-300 focus:outline-none focus:border-indigo-500"
+              value={concurrency}
+              onChange={(e) => setConcurrency(Number(e.target.value))}
+              disabled={isProcessing}
+            >
+              {[1, 2, 3, 4].map(n => <option key={n} value={n}>{n}</option>)}
+            </select>
+          </div>
           <textarea
             className="flex-1 w-full bg-zinc-950 border border-zinc-800 rounded-lg p-4 text-sm font-mono text-zinc-300 focus:outline-none focus:border-indigo-500 resize-none mb-4"
             value={scriptText}
             onChange={(e) => setScriptText(e.target.value)}
-            placeholder="Paste your script here... (Optional: Add image URL in description)"
+            placeholder={
+              parseMode === ParseMode.STRUCTURED ? "SCENE 1: Title\nVisual: ...\nContext: ...\nImage: https://... (optional)\nTransition: dissolve 800ms (optional)\nDialogue: Mike: ... (optional, repeatable)" :
+              parseMode === ParseMode.FOUNTAIN ? "INT. STARTUP OFFICE - DAY\n\nMike holds a clipboard.\n\nMIKE\nWhere are your permits?" :
+              "Paste your script here... (Optional: Add image URL in description)"
+            }
             disabled={isProcessing}
           />
+          {scriptErrors.length > 0 && (
+            <div className="mb-4 -mt-2 p-3 rounded-lg border border-red-900 bg-red-900/10 font-mono text-[10px] text-red-300 space-y-1 max-h-24 overflow-y-auto">
+              {scriptErrors.map((e, i) => (
+                <p key={i}><span className="font-bold text-red-400">Line {e.line}:</span> {e.message}</p>
+              ))}
+            </div>
+          )}
           
-          <button
-            onClick={runDirector}
-            disabled={isProcessing || !apiKeyReady}
-            className={`
-              w-full py-4 rounded-lg font-bold text-lg tracking-widest uppercase transition-all
-              ${isProcessing 
-                ? 'bg-zinc-800 text-zinc-500 cursor-not-allowed' 
-                : apiKeyReady
-                  ? 'bg-indigo-600 hover:bg-indigo-500 text-white shadow-[0_0_20px_rgba(79,70,229,0.3)]'
-                  : 'bg-zinc-800 text-zinc-500 cursor-not-allowed'
-              }
-            `}
-          >
-            {isProcessing ? 'Production In Progress...' : 'Action!'}
-          </button>
+          <div className="flex gap-2">
+            {!isProcessing && (
+              <button
+                onClick={runBreakdown}
+                disabled={!apiKeyReady || scriptErrors.length > 0}
+                title="Parse into an editable scene list before shooting"
+                className="px-5 py-4 rounded-lg font-bold text-sm tracking-widest uppercase transition-all border border-indigo-500/50 text-indigo-300 hover:bg-indigo-900/30 disabled:opacity-30"
+              >
+                Breakdown
+              </button>
+            )}
+            <button
+              onClick={runDirector}
+              disabled={isProcessing || !apiKeyReady || scriptErrors.length > 0}
+              className={`
+                flex-1 py-4 rounded-lg font-bold text-lg tracking-widest uppercase transition-all
+                ${isProcessing 
+                  ? 'bg-zinc-800 text-zinc-500 cursor-not-allowed' 
+                  : apiKeyReady
+                    ? 'bg-indigo-600 hover:bg-indigo-500 text-white shadow-[0_0_20px_rgba(79,70,229,0.3)]'
+                    : 'bg-zinc-800 text-zinc-500 cursor-not-allowed'
+                }
+              `}
+            >
+              {isProcessing ? 'Production In Progress...' : 'Action!'}
+            </button>
+            {isProcessing && (
+              <button
+                onClick={handleStop}
+                className="px-6 py-4 rounded-lg font-bold text-lg tracking-widest uppercase transition-all bg-red-600 hover:bg-red-500 text-white"
+              >
+                Stop
+              </button>
+            )}
+          </div>
+          {!isProcessing && project && resumeIndex !== -1 && !hasStoryboard && (
+            <button
+              onClick={resumeDirector}
+              disabled={!apiKeyReady}
+              className="w-full mt-2 py-2 rounded-lg font-bold text-xs tracking-widest uppercase transition-all border border-indigo-500/50 text-indigo-300 hover:bg-indigo-900/30 disabled:opacity-30"
+            >
+              Resume from Scene {scenes[resumeIndex].id}
+            </button>
+          )}
         </div>
       </div>
 
@@ -335,7 +865,7 @@ export default function App() {
 
         <div className="flex-1 overflow-hidden flex flex-col">
           <h2 className="text-sm font-bold uppercase tracking-wider text-zinc-400 mb-2">Neural Logs</h2>
-          <ConsoleLog logs={logs} />
+          <ConsoleLog logs={logs} onExport={handleExportTrace} onImport={handleImportTrace} />
         </div>
       </div>
 
@@ -343,15 +873,50 @@ export default function App() {
       <div className="w-1/3 flex flex-col bg-zinc-900/30 overflow-hidden">
         <div className="p-6 border-b border-zinc-800 flex justify-between items-center">
            <h2 className="text-sm font-bold uppercase tracking-wider text-zinc-400">Scene Gallery</h2>
-           {hasPlayableScenes && (
-             <button
-               onClick={() => setShowReelPlayer(true)}
-               className="text-xs bg-indigo-600 hover:bg-indigo-500 text-white px-3 py-1.5 rounded flex items-center gap-2 transition-all animate-in fade-in"
-             >
-               <svg className="w-3 h-3 fill-current" viewBox="0 0 24 24"><path d="M8 5v14l11-7z"/></svg>
-               Play Reel
-             </button>
-           )}
+           <div className="flex items-center gap-2">
+             {scenes.length > 0 && !isProcessing && (
+               <button
+                 onClick={handleExportFountain}
+                 className="text-xs text-zinc-400 hover:text-white border border-zinc-700 px-3 py-1.5 rounded transition-all"
+               >
+                 Export .fountain
+               </button>
+             )}
+             {hasStoryboard && (
+               <button
+                 onClick={() => setShowStoryboard(true)}
+                 className="text-xs text-zinc-400 hover:text-white border border-zinc-700 px-3 py-1.5 rounded transition-all"
+               >
+                 Storyboard
+               </button>
+             )}
+             {hasPlayableScenes && !isProcessing && (
+               <button
+                 onClick={() => setShowReelExport(true)}
+                 className="text-xs text-zinc-400 hover:text-white border border-zinc-700 px-3 py-1.5 rounded transition-all"
+               >
+                 Render Reel
+               </button>
+             )}
+             {hasPlayableScenes && !isProcessing && (
+               <button
+                 onClick={handleExportTimeline}
+                 disabled={isExportingTimeline}
+                 className="text-xs text-zinc-400 hover:text-white border border-zinc-700 px-3 py-1.5 rounded transition-all disabled:opacity-30"
+               >
+                 {isExportingTimeline ? 'Exporting...' : 'Export Timeline'}
+               </button>
+             )}
+             {hasPlayableScenes && (
+               <button
+                 onClick={() => setShowReelPlayer(true)}
+                 className="text-xs bg-indigo-600 hover:bg-indigo-500 text-white px-3 py-1.5 rounded flex items-center gap-2 transition-all animate-in fade-in"
+               >
+                 <svg className="w-3 h-3 fill-current" viewBox="0 0 24 24"><path d="M8 5v14l11-7z"/></svg>
+                 Play Reel
+               </button>
+             )}
+           </div>
         </div>
         <div className="flex-1 overflow-y-auto p-6">
           {scenes.length === 0 && !isProcessing && (
@@ -373,6 +938,10 @@ export default function App() {
                           scene.status === SceneStatus.GENERATING ? 'bg-indigo-900 text-indigo-300 animate-pulse' :
                           scene.status === SceneStatus.PREPARING_ASSETS ? 'bg-pink-900 text-pink-300 animate-pulse' :
                           scene.status === SceneStatus.ANALYZING ? 'bg-blue-900 text-blue-300' :
+                          scene.status === SceneStatus.STORYBOARD ? 'bg-amber-900 text-amber-300' :
+                          scene.status === SceneStatus.CANCELLED ? 'bg-orange-900 text-orange-300' :
+                          scene.status === SceneStatus.BLOCKED ? 'bg-rose-900 text-rose-300' :
+                          scene.status === SceneStatus.ERROR ? 'bg-red-900 text-red-300' :
                           'bg-zinc-800 text-zinc-500'
                         }`}>
                           {scene.status}
@@ -382,13 +951,43 @@ export default function App() {
                              Extended Cut
                           </span>
                         )}
+                        {scene.matchesLastFrame && (
+                          <span className="text-[10px] uppercase px-2 py-0.5 rounded font-bold bg-teal-900 text-teal-300">
+                             Matched Frame
+                          </span>
+                        )}
                         {scene.imageUrl && (
                           <span className="text-[10px] uppercase px-2 py-0.5 rounded font-bold bg-zinc-700 text-zinc-300">
                              Has Img Ref
                           </span>
                         )}
+                        {findSceneEntries(bible, scene).map(entry => (
+                          <span key={entry.id} className="text-[10px] px-2 py-0.5 rounded font-mono bg-zinc-800 text-zinc-400">
+                             {entry.name}
+                          </span>
+                        ))}
                      </div>
                   </div>
+                  {!isProcessing && project && [SceneStatus.COMPLETED, SceneStatus.ERROR, SceneStatus.BLOCKED, SceneStatus.CANCELLED].includes(scene.status) && (
+                    <div className="flex gap-2">
+                      {scene.status === SceneStatus.BLOCKED && (
+                        <button
+                          onClick={() => rewriteAndRetryScene(scene.id)}
+                          disabled={!apiKeyReady}
+                          className="text-[10px] uppercase tracking-wider font-mono text-rose-400 hover:text-rose-300 px-2 py-1 border border-rose-900 rounded disabled:opacity-30"
+                        >
+                          Rewrite & retry
+                        </button>
+                      )}
+                      <button
+                        onClick={() => regenerateScene(scene.id)}
+                        disabled={!apiKeyReady}
+                        className="text-[10px] uppercase tracking-wider font-mono text-zinc-500 hover:text-indigo-400 px-2 py-1 border border-zinc-800 rounded disabled:opacity-30"
+                      >
+                        Regenerate
+                      </button>
+                    </div>
+                  )}
                 </div>
                 
                 <div className="aspect-video bg-zinc-900 relative group">
@@ -431,38 +1030,89 @@ export default function App() {
                   )}
                 </div>
 
-                {scene.feedback && (
-                  <div className="p-3 bg-blue-900/10 border-t border-zinc-800">
-                     <p className="text-[10px] font-mono text-blue-300">
-                       <span className="font-bold text-blue-400">QA Note:</span> {scene.feedback}
+                <div className="px-4 py-2 border-t border-zinc-800 flex items-center gap-2">
+                  <span className="text-[10px] uppercase tracking-wider text-zinc-500 font-mono">Output</span>
+                  <select
+                    className="bg-zinc-900 border border-zinc-800 rounded px-1 py-0.5 text-[10px] font-mono text-zinc-400 focus:outline-none focus:border-indigo-500"
+                    value={scene.generationOverrides?.resolution ?? ''}
+                    onChange={(e) => updateSceneOverride(scene.id, 'resolution', (e.target.value || undefined) as GenerationConfig['resolution'] | undefined)}
+                    disabled={isProcessing}
+                  >
+                    <option value="">Default ({generationConfig.resolution})</option>
+                    {RESOLUTIONS.map(r => <option key={r} value={r}>{r}</option>)}
+                  </select>
+                  <select
+                    className="bg-zinc-900 border border-zinc-800 rounded px-1 py-0.5 text-[10px] font-mono text-zinc-400 focus:outline-none focus:border-indigo-500"
+                    value={scene.generationOverrides?.aspectRatio ?? ''}
+                    onChange={(e) => updateSceneOverride(scene.id, 'aspectRatio', (e.target.value || undefined) as GenerationConfig['aspectRatio'] | undefined)}
+                    disabled={isProcessing}
+                  >
+                    <option value="">Default ({generationConfig.aspectRatio})</option>
+                    {ASPECT_RATIOS.map(a => <option key={a} value={a}>{a}</option>)}
+                  </select>
+                  <span className="ml-auto text-[10px] font-mono text-zinc-600">
+                    {scene.renderedConfig && `Rendered ${scene.renderedConfig.resolution} · ${scene.renderedConfig.aspectRatio} · `}
+                    {scene.status !== SceneStatus.COMPLETED && `Est. ${formatUsd(estimate.scenes[index]?.total ?? 0)} · `}
+                    Spent {formatUsd(sumSpend(spend, scene.id))}
+                  </span>
+                </div>
+
+                {scene.takes && scene.takes.length > 1 && (
+                  <TakeStrip
+                    takes={scene.takes}
+                    selectedTakeId={scene.selectedTakeId}
+                    disabled={isProcessing}
+                    onCircle={(takeId) => circleSceneTake(scene.id, takeId)}
+                  />
+                )}
+
+                {isStaleExtension(scene, scenes[index - 1]) && (
+                  <div className="p-3 bg-amber-900/10 border-t border-zinc-800">
+                    <p className="text-[10px] font-mono text-amber-300">
+                      <span className="font-bold text-amber-400">Out of sync:</span> This take extends a take of Scene {scenes[index - 1].id} that is no longer circled. Regenerate to relink it.
+                    </p>
+                  </div>
+                )}
+
+                {scene.configConflicts && (
+                  <div className="p-3 bg-amber-900/10 border-t border-zinc-800">
+                    {scene.configConflicts.map(conflict => (
+                      <p key={conflict} className="text-[10px] font-mono text-amber-300">
+                        <span className="font-bold text-amber-400">{scene.isExtension ? `Extended at ${EXTENSION_RESOLUTION}:` : 'Not extended:'}</span> {conflict}
+                      </p>
+                    ))}
+                  </div>
+                )}
+
+                {scene.error && (
+                  <div className="p-3 bg-red-900/10 border-t border-zinc-800">
+                     <p className="text-[10px] font-mono text-red-300">
+                       <span className="font-bold text-red-400">Failure{scene.failureKind && ` (${scene.failureKind.toLowerCase().replace('_', ' ')})`}:</span> {scene.error}
                      </p>
                   </div>
                 )}
+
+                {((scene.promptLint?.prompt === scene.visualPrompt && scene.promptLint.risks.length > 0) || scene.promptRewrites) && (
+                  <PromptSafetyReport
+                    lint={scene.promptLint?.prompt === scene.visualPrompt ? scene.promptLint : undefined}
+                    rewrites={scene.promptRewrites}
+                    disabled={isProcessing}
+                    onUseSuggestion={() => applyPromptSuggestion(scene.id)}
+                  />
+                )}
+
+                {(scene.feedback || scene.continuityFindings) && (
+                  <ContinuityReport reasoning={scene.feedback} findings={scene.continuityFindings} />
+                )}
               </div>
 
               {/* TRANSITION DIVIDER */}
               {index < scenes.length - 1 && (
-                <div className="flex flex-col items-center justify-center py-4 relative opacity-60">
-                  <div className="absolute inset-y-0 left-1/2 w-px bg-zinc-800 -z-10"></div>
-                  
-                  {scenes[index + 1].isExtension ? (
-                    // DIRECT CUT VISUAL
-                    <div className="flex items-center gap-2 bg-zinc-950 px-3 py-1 rounded-full border border-zinc-800 text-purple-400">
-                      <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
-                      </svg>
-                      <span className="text-[10px] font-bold tracking-widest uppercase">Direct Cut</span>
-                    </div>
-                  ) : (
-                    // FADE VISUAL
-                    <div className="flex items-center gap-2 bg-zinc-950 px-3 py-1 rounded-full border border-zinc-800 text-blue-400">
-                      <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
-                      </svg>
-                      <span className="text-[10px] font-bold tracking-widest uppercase">Cross Fade</span>
-                    </div>
-                  )}
-                </div>
+                <TransitionPicker
+                  transition={transitionInto(scenes[index + 1])}
+                  isDefault={!scenes[index + 1].transitionIn}
+                  onChange={(transition) => updateSceneTransition(scenes[index + 1].id, transition)}
+                />
               )}
             </React.Fragment>
           ))}
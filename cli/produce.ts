@@ -0,0 +1,244 @@
+/**
+ * HEADLESS DIRECTOR: produces a script from the shell, for batch runs and cron jobs.
+ *
+ *   bun cli/produce.ts <script> [--out <dir>] [--provider GEMINI|MOCK] [--parse STRUCTURED|FOUNTAIN|FREEFORM]
+ *                               [--concurrency <n>] [--budget <usd>] [--auto-fix] [--restyle] [--rewrite-blocked] [--verbose]
+ *
+ * Runs parse → continuity → stage hand → generate, then writes every take's clip to `clips/`, its
+ * start frame to `frames/` and a `manifest.json` describing the production to the output directory.
+ * Exits non-zero unless every scene completed and every clip was saved. Gemini reads GEMINI_API_KEY. Last frames (for
+ * match-from-last-frame and visual QA) are decoded with ffmpeg when it is on the PATH.
+ */
+import { spawn } from 'node:child_process';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import {
+  AgentLog,
+  BibleEntry,
+  ParseMode,
+  ProjectMeta,
+  ProviderId,
+  SceneStatus,
+  ScriptScene,
+  SpendEntry,
+  Take
+} from '../types';
+import { getProvider } from '../services/providers';
+import { fetchClip } from '../services/geminiService';
+import { createDirector, DirectorEvent, RunOutcome } from '../services/director';
+import { parseFountain } from '../services/fountain';
+import { deriveProjectName } from '../services/projectStore';
+import { toFileStem } from '../services/download';
+import { DEFAULT_GENERATION_CONFIG } from '../services/generationConfig';
+import { sumSpend, formatUsd } from '../services/costs';
+
+const USAGE = 'Usage: bun cli/produce.ts <script> [--out <dir>] [--provider GEMINI|MOCK] [--parse STRUCTURED|FOUNTAIN|FREEFORM] [--concurrency <n>] [--budget <usd>] [--auto-fix] [--restyle] [--rewrite-blocked] [--verbose]';
+
+// Clip container by response type; Veo serves MP4, recorded mock takes are WebM
+const CLIP_EXTENSIONS: Record<string, string> = { 'video/mp4': '.mp4', 'video/webm': '.webm', 'video/quicktime': '.mov' };
+
+const fail = (message: string): never => {
+  console.error(message);
+  process.exit(2);
+};
+
+const oneOf = <T extends string>(value: string | undefined, options: Record<string, T>, flag: string): T | undefined => {
+  if (value === undefined) return undefined;
+  const match = Object.values(options).find(option => option === value.toUpperCase());
+  return match ?? fail(`--${flag} must be one of ${Object.values(options).join(', ')}.`);
+};
+
+const { values: args, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    out: { type: 'string' },
+    provider: { type: 'string' },
+    parse: { type: 'string' },
+    concurrency: { type: 'string', default: '2' },
+    budget: { type: 'string' },
+    'auto-fix': { type: 'boolean', default: false },
+    restyle: { type: 'boolean', default: false },
+    'rewrite-blocked': { type: 'boolean', default: false },
+    verbose: { type: 'boolean', default: false },
+    help: { type: 'boolean', default: false }
+  }
+});
+
+if (args.help) {
+  console.log(USAGE);
+  process.exit(0);
+}
+if (positionals.length !== 1) fail(USAGE);
+
+const scriptPath = positionals[0];
+const parseMode = oneOf(args.parse, ParseMode, 'parse') ?? (scriptPath.endsWith('.fountain') ? ParseMode.FOUNTAIN : ParseMode.STRUCTURED);
+const providerId = oneOf(args.provider ?? process.env.GENERATION_PROVIDER, ProviderId, 'provider') ?? ProviderId.GEMINI;
+const concurrency = Number(args.concurrency);
+const budgetUsd = args.budget === undefined ? undefined : Number(args.budget);
+if (!Number.isInteger(concurrency) || concurrency < 1) fail('--concurrency must be a whole number of at least 1.');
+if (budgetUsd !== undefined && !(budgetUsd >= 0)) fail('--budget must be an amount in USD.');
+
+// The browser build gets the key from Vite; here it comes straight from the environment
+process.env.API_KEY ??= process.env.GEMINI_API_KEY;
+
+// -------------------------------------------------------------------------
+// Output files
+// -------------------------------------------------------------------------
+
+const padded = (n: number) => String(n).padStart(2, '0');
+const takeStem = (sceneId: number, take: Take) => `scene-${padded(sceneId)}-take-${take.number}`;
+
+// Downloads a take's clip; undefined when the provider has nothing to download (mock:// URIs)
+const saveClip = async (outDir: string, sceneId: number, take: Take): Promise<string | undefined> => {
+  if (!/^(https?|data):/.test(take.videoUri)) return undefined;
+  const response = await fetchClip(take.videoUri);
+  if (!response.ok) throw new Error(`download failed (${response.status} ${response.statusText})`);
+  const type = response.headers.get('content-type')?.split(';')[0] ?? '';
+  const file = path.join('clips', `${takeStem(sceneId, take)}${CLIP_EXTENSIONS[type] ?? '.mp4'}`);
+  await writeFile(path.join(outDir, file), Buffer.from(await response.arrayBuffer()));
+  return file;
+};
+
+const saveFrame = async (outDir: string, sceneId: number, take: Take): Promise<string | undefined> => {
+  if (!take.startFrameBase64) return undefined;
+  const file = path.join('frames', `${takeStem(sceneId, take)}.png`);
+  await writeFile(path.join(outDir, file), Buffer.from(take.startFrameBase64, 'base64'));
+  return file;
+};
+
+// Final frame of a downloaded clip as base64 PNG, decoded by ffmpeg
+const ffmpegLastFrame = (file: string, signal: AbortSignal) => new Promise<string>((resolve, reject) => {
+  const ffmpeg = spawn('ffmpeg', ['-v', 'error', '-sseof', '-0.1', '-i', file, '-frames:v', '1', '-f', 'image2pipe', '-c:v', 'png', '-'], { signal });
+  const chunks: Buffer[] = [];
+  ffmpeg.stdout.on('data', chunk => chunks.push(chunk));
+  ffmpeg.on('error', (err: NodeJS.ErrnoException) => reject(err.code === 'ENOENT' ? new Error('ffmpeg is not installed') : err));
+  ffmpeg.on('close', code => {
+    if (code === 0 && chunks.length > 0) resolve(Buffer.concat(chunks).toString('base64'));
+    else reject(new Error(`ffmpeg exited with code ${code}`));
+  });
+});
+
+// -------------------------------------------------------------------------
+// Run
+// -------------------------------------------------------------------------
+
+const main = async () => {
+  const scriptText = await readFile(scriptPath, 'utf8');
+  const name = (parseMode === ParseMode.FOUNTAIN && parseFountain(scriptText).title) || deriveProjectName(scriptText);
+  const outDir = path.resolve(args.out ?? path.join('out', toFileStem(name)));
+  await mkdir(path.join(outDir, 'clips'), { recursive: true });
+  await mkdir(path.join(outDir, 'frames'), { recursive: true });
+
+  const provider = getProvider(providerId);
+  if (!await provider.isReady()) fail(`${provider.label} is not ready. Set GEMINI_API_KEY, or pass --provider MOCK.`);
+
+  const production: ProjectMeta = {
+    id: crypto.randomUUID(),
+    name,
+    scriptText,
+    providerId,
+    generationConfig: DEFAULT_GENERATION_CONFIG,
+    budgetUsd,
+    createdAt: new Date()
+  };
+
+  // The Director's events, folded into the production as it runs
+  let scenes: ScriptScene[] = [];
+  let bible: BibleEntry[] = [];
+  const spend: SpendEntry[] = [];
+  const clips = new Map<string, Promise<string | undefined>>(); // Take id -> clip path in the output directory
+  const frames = new Map<string, Promise<string | undefined>>(); // Take id -> start frame path
+  const clipsByUri = new Map<string, Promise<string | undefined>>();
+  let failedWrites = 0; // Clips and frames that could not be saved
+
+  const print = (entry: AgentLog) => {
+    const line = `[${entry.timestamp.toLocaleTimeString()}] ${entry.role.padEnd(14)} ${entry.message}`;
+    (entry.status === 'error' ? console.error : console.log)(line);
+  };
+
+  const onTake = (sceneId: number, take: Take) => {
+    const clip = saveClip(outDir, sceneId, take).catch((err: any) => {
+      console.error(`Scene ${sceneId}: Could not save take ${take.number} (${err.message}).`);
+      failedWrites++;
+      return undefined;
+    });
+    clips.set(take.id, clip);
+    clipsByUri.set(take.videoUri, clip);
+    frames.set(take.id, saveFrame(outDir, sceneId, take).catch((err: any) => {
+      console.error(`Scene ${sceneId}: Could not save the start frame of take ${take.number} (${err.message}).`);
+      failedWrites++;
+      return undefined;
+    }));
+  };
+
+  const onEvent = (event: DirectorEvent) => {
+    switch (event.type) {
+      case 'log':
+        if (!event.entry.span || args.verbose) print(event.entry);
+        break;
+      case 'scenes':
+        scenes = event.scenes;
+        break;
+      case 'scene':
+        scenes = scenes.map(s => s.id === event.sceneId ? { ...s, ...event.data } : s);
+        break;
+      case 'take':
+        onTake(event.sceneId, event.take);
+        break;
+      case 'bible':
+        bible = event.bible;
+        break;
+      case 'spend':
+        spend.push(event.entry);
+        break;
+    }
+  };
+
+  const director = createDirector({
+    provider,
+    production,
+    settings: { concurrency, storyboardMode: false, autoFixContinuity: args['auto-fix'], restyleMatchedFrames: args.restyle, rewriteBlockedPrompts: args['rewrite-blocked'] },
+    onEvent,
+    // No confirmBudget: with nobody to ask in a batch run, the Director stops at the budget cap
+    lastFrame: async (videoUri, signal) => {
+      const clip = await clipsByUri.get(videoUri);
+      if (!clip) throw new Error('the clip was not downloaded');
+      return ffmpegLastFrame(path.join(outDir, clip), signal);
+    }
+  });
+
+  // First Ctrl-C stops the run and still writes the manifest; a second one exits at once
+  process.once('SIGINT', () => director.stop());
+
+  console.log(`Producing "${name}" on ${provider.label} into ${outDir}`);
+  const outcome: RunOutcome = await director.direct(parseMode);
+
+  const manifest = {
+    production: { ...production, scriptFile: path.resolve(scriptPath), parseMode },
+    outcome,
+    spendUsd: sumSpend(spend),
+    scenes: await Promise.all(scenes.map(async ({ takes = [], imageBase64, videoHandle, ...scene }) => ({
+      ...scene,
+      clip: scene.selectedTakeId ? await clips.get(scene.selectedTakeId) : undefined,
+      takes: await Promise.all(takes.map(async ({ startFrameBase64, videoHandle, ...take }) => ({
+        ...take,
+        circled: take.id === scene.selectedTakeId,
+        clip: await clips.get(take.id),
+        frame: await frames.get(take.id)
+      })))
+    }))),
+    bible: bible.map(({ referenceImageBase64, ...entry }) => entry),
+    spend
+  };
+  await writeFile(path.join(outDir, 'manifest.json'), `${JSON.stringify(manifest, null, 2)}\n`);
+
+  const completed = scenes.filter(s => s.status === SceneStatus.COMPLETED).length;
+  const written = (await Promise.all(clips.values())).filter(Boolean).length;
+  console.log(`${outcome}: ${completed}/${scenes.length} scene(s) completed, ${written} clip(s) written, ${formatUsd(sumSpend(spend))} spent.`);
+  if (failedWrites > 0) console.error(`${failedWrites} clip(s) or frame(s) could not be saved.`);
+  console.log(`Manifest: ${path.join(outDir, 'manifest.json')}`);
+  process.exit(outcome === 'completed' && completed === scenes.length && scenes.length > 0 && failedWrites === 0 ? 0 : 1);
+};
+
+main().catch((err: any) => fail(err.message));
@@ -0,0 +1,146 @@
+import React from 'react';
+import { BibleEntry, BibleEntryKind } from '../types';
+
+interface BiblePanelProps {
+  entries: BibleEntry[];
+  onChange: (entries: BibleEntry[]) => void;
+  onClose: () => void;
+}
+
+const readFileAsBase64 = (file: File): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
+  reader.onerror = reject;
+  reader.readAsDataURL(file);
+});
+
+export const BiblePanel: React.FC<BiblePanelProps> = ({ entries, onChange, onClose }) => {
+  const updateEntry = (id: string, data: Partial<BibleEntry>) => {
+    onChange(entries.map(e => e.id === id ? { ...e, ...data } : e));
+  };
+
+  const addEntry = (kind: BibleEntryKind) => {
+    onChange([...entries, { id: crypto.randomUUID(), kind, name: '', aliases: [], description: '' }]);
+  };
+
+  const handleUpload = async (id: string, e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    updateEntry(id, { referenceImageBase64: await readFileAsBase64(file) });
+  };
+
+  const inputClass = "w-full bg-zinc-950 border border-zinc-800 rounded px-2 py-1 text-xs font-mono text-zinc-300 focus:outline-none focus:border-indigo-500";
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/80 flex items-center justify-center animate-in fade-in duration-300" onClick={onClose}>
+      <div
+        className="w-full max-w-3xl max-h-[80vh] flex flex-col bg-zinc-900 border border-zinc-800 rounded-xl shadow-2xl overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-zinc-800 flex justify-between items-center">
+          <h2 className="text-sm font-bold uppercase tracking-wider text-zinc-400">Character & Location Bible</h2>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => addEntry(BibleEntryKind.CHARACTER)}
+              className="text-xs text-zinc-400 hover:text-white border border-zinc-700 px-3 py-1 rounded transition-colors"
+            >
+              + Character
+            </button>
+            <button
+              onClick={() => addEntry(BibleEntryKind.LOCATION)}
+              className="text-xs text-zinc-400 hover:text-white border border-zinc-700 px-3 py-1 rounded transition-colors"
+            >
+              + Location
+            </button>
+            <button onClick={onClose} className="ml-2 text-zinc-500 hover:text-white">
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-3">
+          {entries.length === 0 && (
+            <p className="text-xs font-mono text-zinc-600 text-center py-8">
+              The bible is filled in automatically when a script is parsed, or add entries by hand.
+            </p>
+          )}
+          {entries.map(entry => (
+            <div key={entry.id} className="flex gap-3 p-3 rounded-lg border border-zinc-800 bg-zinc-950">
+              <div className="w-24 shrink-0 flex flex-col gap-2">
+                <div className="aspect-square rounded bg-zinc-900 border border-zinc-800 overflow-hidden flex items-center justify-center">
+                  {entry.referenceImageBase64 ? (
+                    <img
+                      src={`data:image/png;base64,${entry.referenceImageBase64}`}
+                      alt={`${entry.name} reference`}
+                      className="w-full h-full object-cover"
+                    />
+                  ) : (
+                    <span className="text-[10px] font-mono text-zinc-600 text-center px-1">No reference</span>
+                  )}
+                </div>
+                <label className="text-[10px] text-center font-mono text-zinc-500 hover:text-indigo-400 cursor-pointer">
+                  Upload
+                  <input type="file" accept="image/*" className="hidden" onChange={(e) => handleUpload(entry.id, e)} />
+                </label>
+                {entry.referenceImageBase64 && (
+                  <button
+                    onClick={() => updateEntry(entry.id, { referenceImageBase64: undefined })}
+                    className="text-[10px] font-mono text-zinc-600 hover:text-red-400"
+                  >
+                    Clear
+                  </button>
+                )}
+              </div>
+
+              <div className="flex-1 space-y-2">
+                <div className="flex gap-2">
+                  <select
+                    className={`${inputClass} w-32`}
+                    value={entry.kind}
+                    onChange={(e) => updateEntry(entry.id, { kind: e.target.value as BibleEntryKind })}
+                  >
+                    <option value={BibleEntryKind.CHARACTER}>Character</option>
+                    <option value={BibleEntryKind.LOCATION}>Location</option>
+                  </select>
+                  <input
+                    className={inputClass}
+                    value={entry.name}
+                    placeholder="Name"
+                    onChange={(e) => updateEntry(entry.id, { name: e.target.value })}
+                  />
+                  <button
+                    onClick={() => onChange(entries.filter(e => e.id !== entry.id))}
+                    className="text-xs text-zinc-500 hover:text-red-400 px-2"
+                  >
+                    Delete
+                  </button>
+                </div>
+                {/* Committed on blur so typing a trailing comma isn't normalized away */}
+                <input
+                  className={inputClass}
+                  defaultValue={entry.aliases.join(', ')}
+                  placeholder="Aliases (comma separated)"
+                  onBlur={(e) => updateEntry(entry.id, { aliases: e.target.value.split(',').map(a => a.trim()).filter(Boolean) })}
+                />
+                <textarea
+                  className={`${inputClass} resize-none h-16`}
+                  value={entry.description}
+                  placeholder="Canonical visual description"
+                  onChange={(e) => updateEntry(entry.id, { description: e.target.value })}
+                />
+                <input
+                  className={inputClass}
+                  value={entry.referenceImageUrl ?? ''}
+                  placeholder="Reference image URL (optional, fetched on first use)"
+                  onChange={(e) => updateEntry(entry.id, { referenceImageUrl: e.target.value || undefined, referenceImageBase64: undefined })}
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
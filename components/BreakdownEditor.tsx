@@ -0,0 +1,172 @@
+import React, { useRef, useState } from 'react';
+import { ScriptScene } from '../types';
+import { blankScene, mergeWithNext, moveScene, splitScene } from '../services/breakdown';
+
+interface BreakdownEditorProps {
+  scenes: ScriptScene[];
+  canShoot: boolean;
+  onChange: (scenes: ScriptScene[]) => void;
+  onShoot: () => void;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full bg-zinc-950 border border-zinc-800 rounded px-2 py-1 text-xs text-zinc-300 focus:outline-none focus:border-indigo-500';
+const actionClass = 'text-[10px] uppercase tracking-wider text-zinc-500 hover:text-white disabled:opacity-30 disabled:hover:text-zinc-500';
+
+/**
+ * Pre-production review of the parsed scenes. Scenes can be edited, dragged into a new order,
+ * split (at the cursor in the visual prompt), merged, inserted and deleted before anything is shot.
+ */
+export const BreakdownEditor: React.FC<BreakdownEditorProps> = ({ scenes, canShoot, onChange, onShoot, onClose }) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [overIndex, setOverIndex] = useState<number | null>(null);
+  // Last cursor position in each scene's visual prompt, where Split cuts
+  const caretRef = useRef<Record<number, number>>({});
+
+  const update = (id: number, data: Partial<ScriptScene>) => {
+    onChange(scenes.map(s => s.id === id ? { ...s, ...data } : s));
+  };
+
+  const insertAfter = (index: number) => {
+    onChange([...scenes.slice(0, index + 1), blankScene(scenes), ...scenes.slice(index + 1)]);
+  };
+
+  const missingPrompt = scenes.filter(s => !s.visualPrompt.trim());
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/80 flex items-center justify-center animate-in fade-in duration-300">
+      <div className="w-full max-w-4xl max-h-[90vh] flex flex-col bg-zinc-900 border border-zinc-800 rounded-xl shadow-2xl overflow-hidden">
+        <div className="p-4 border-b border-zinc-800 flex justify-between items-center">
+          <div>
+            <h2 className="text-sm font-bold uppercase tracking-wider text-zinc-400">Breakdown · {scenes.length} scene(s)</h2>
+            <p className="text-[10px] font-mono text-zinc-600 mt-1">
+              Review the scenes before anything is shot. Drag to reorder; scenes are renumbered when production starts.
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={onClose}
+              className="text-xs text-zinc-400 hover:text-white border border-zinc-700 px-3 py-1.5 rounded transition-colors"
+            >
+              Back to script
+            </button>
+            <button
+              onClick={onShoot}
+              disabled={!canShoot || scenes.length === 0 || missingPrompt.length > 0}
+              title={missingPrompt.length > 0 ? `Scene(s) without a visual prompt: ${missingPrompt.map(s => s.title).join(', ')}` : undefined}
+              className="text-xs bg-indigo-600 hover:bg-indigo-500 text-white font-bold uppercase tracking-widest px-4 py-1.5 rounded transition-colors disabled:opacity-30 disabled:hover:bg-indigo-600"
+            >
+              Action!
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-3">
+          {scenes.length === 0 && (
+            <p className="text-xs font-mono text-zinc-600 text-center py-10">No scenes. Insert one to get started.</p>
+          )}
+
+          {scenes.map((scene, index) => (
+            <div
+              key={scene.id}
+              onDragOver={(e) => {
+                if (dragIndex === null) return;
+                e.preventDefault();
+                setOverIndex(index);
+              }}
+              onDrop={(e) => {
+                e.preventDefault();
+                if (dragIndex !== null) onChange(moveScene(scenes, dragIndex, index));
+                setDragIndex(null);
+                setOverIndex(null);
+              }}
+              className={`rounded-lg border bg-zinc-950/60 p-3 transition-colors ${
+                overIndex === index && dragIndex !== index ? 'border-indigo-500' : 'border-zinc-800'
+              } ${dragIndex === index ? 'opacity-40' : ''}`}
+            >
+              <div className="flex items-center gap-2 mb-2">
+                {/* Only the handle drags, so text in the fields can still be selected */}
+                <span
+                  draggable
+                  onDragStart={(e) => {
+                    e.dataTransfer.setData('text/plain', String(scene.id));
+                    setDragIndex(index);
+                  }}
+                  onDragEnd={() => { setDragIndex(null); setOverIndex(null); }}
+                  className="cursor-grab text-zinc-600 hover:text-zinc-300 select-none"
+                  title="Drag to reorder"
+                >
+                  ⋮⋮
+                </span>
+                <span className="text-[10px] font-mono text-zinc-500 w-14">Scene {index + 1}</span>
+                <input
+                  value={scene.title}
+                  onChange={(e) => update(scene.id, { title: e.target.value })}
+                  placeholder="Title"
+                  className={`${inputClass} font-bold`}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-2">
+                <label className="block">
+                  <span className="text-[10px] uppercase tracking-wider text-zinc-500 font-mono">Visual prompt</span>
+                  <textarea
+                    value={scene.visualPrompt}
+                    onChange={(e) => update(scene.id, { visualPrompt: e.target.value })}
+                    onSelect={(e) => { caretRef.current[scene.id] = e.currentTarget.selectionStart; }}
+                    rows={4}
+                    className={`${inputClass} resize-y ${scene.visualPrompt.trim() ? '' : 'border-red-900'}`}
+                  />
+                </label>
+                <label className="block">
+                  <span className="text-[10px] uppercase tracking-wider text-zinc-500 font-mono">Narrative context</span>
+                  <textarea
+                    value={scene.narrativeContext}
+                    onChange={(e) => update(scene.id, { narrativeContext: e.target.value })}
+                    rows={4}
+                    className={`${inputClass} resize-y`}
+                  />
+                </label>
+              </div>
+
+              <div className="flex items-center gap-3 mt-2">
+                <input
+                  value={scene.imageUrl ?? ''}
+                  onChange={(e) => update(scene.id, { imageUrl: e.target.value.trim() || undefined })}
+                  placeholder="Image URL (optional)"
+                  className={`${inputClass} flex-1 font-mono`}
+                />
+                <button
+                  onClick={() => {
+                    onChange(splitScene(scenes, scene.id, caretRef.current[scene.id]));
+                    delete caretRef.current[scene.id];
+                  }}
+                  className={actionClass}
+                  title="Split at the cursor in the visual prompt"
+                >
+                  Split
+                </button>
+                <button onClick={() => onChange(mergeWithNext(scenes, scene.id))} disabled={index === scenes.length - 1} className={actionClass}>
+                  Merge next
+                </button>
+                <button onClick={() => insertAfter(index)} className={actionClass}>
+                  Insert below
+                </button>
+                <button onClick={() => onChange(scenes.filter(s => s.id !== scene.id))} className={`${actionClass} hover:text-red-400`}>
+                  Delete
+                </button>
+              </div>
+            </div>
+          ))}
+
+          <button
+            onClick={() => insertAfter(scenes.length - 1)}
+            className="w-full py-2 rounded-lg border border-dashed border-zinc-800 text-xs text-zinc-500 hover:text-white hover:border-zinc-600 transition-colors"
+          >
+            + Add scene
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,32 @@
+import React from 'react';
+
+interface BudgetPromptProps {
+  message: string;
+  onAllow: () => void;
+  onStop: () => void;
+}
+
+export const BudgetPrompt: React.FC<BudgetPromptProps> = ({ message, onAllow, onStop }) => (
+  <div className="fixed inset-0 z-[100] bg-black/80 flex items-center justify-center animate-in fade-in duration-300">
+    <div className="w-full max-w-md bg-zinc-900 border border-amber-900 rounded-xl shadow-2xl overflow-hidden">
+      <div className="p-4 border-b border-zinc-800">
+        <h2 className="text-sm font-bold uppercase tracking-wider text-amber-400">Budget Cap Reached</h2>
+      </div>
+      <p className="p-4 text-xs font-mono text-zinc-300">{message}</p>
+      <div className="p-4 border-t border-zinc-800 flex justify-end gap-2">
+        <button
+          onClick={onStop}
+          className="text-xs bg-red-600 hover:bg-red-500 text-white px-3 py-1.5 rounded transition-colors"
+        >
+          Stop production
+        </button>
+        <button
+          onClick={onAllow}
+          className="text-xs text-zinc-400 hover:text-white border border-zinc-700 px-3 py-1.5 rounded transition-colors"
+        >
+          Allow this call
+        </button>
+      </div>
+    </div>
+  </div>
+);
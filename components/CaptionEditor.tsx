@@ -0,0 +1,86 @@
+import React from 'react';
+import { CaptionLine } from '../types';
+import { CaptionCue } from '../services/captions';
+
+interface CaptionEditorProps {
+  cues: CaptionCue[];
+  activeCue?: CaptionCue;
+  onSeek: (ms: number) => void;
+  onChange: (sceneId: number, lineIndex: number, line: CaptionLine) => void;
+  onExport: (format: 'vtt' | 'srt') => void;
+  onClose: () => void;
+}
+
+const formatCueTime = (ms: number) => {
+  const seconds = ms / 1000;
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toFixed(1).padStart(4, '0')}`;
+};
+
+/**
+ * Side panel in the Reel Player listing every caption cue. Clicking a cue's time jumps there;
+ * speaker and text edits go straight back to the scene.
+ */
+export const CaptionEditor: React.FC<CaptionEditorProps> = ({ cues, activeCue, onSeek, onChange, onExport, onClose }) => (
+  <div className="absolute top-0 right-0 bottom-0 w-80 z-40 bg-zinc-900/95 border-l border-zinc-800 flex flex-col">
+    <div className="p-4 pr-20 border-b border-zinc-800 flex items-center gap-2">
+      <h2 className="text-sm font-bold uppercase tracking-wider text-zinc-400 flex-1">Captions</h2>
+      <button
+        onClick={onClose}
+        className="text-[10px] text-zinc-500 hover:text-white border border-zinc-700 px-2 py-0.5 rounded uppercase tracking-wider"
+      >
+        Hide
+      </button>
+    </div>
+
+    <div className="flex-1 overflow-y-auto p-3 space-y-2">
+      {cues.length === 0 && (
+        <p className="text-xs font-mono text-zinc-600 text-center mt-10">No captions. Add dialogue to the script to get some.</p>
+      )}
+      {cues.map(cue => {
+        const isActive = activeCue?.sceneId === cue.sceneId && activeCue.lineIndex === cue.lineIndex;
+        return (
+          <div
+            key={`${cue.sceneId}-${cue.lineIndex}`}
+            className={`rounded border p-2 space-y-1 ${isActive ? 'border-indigo-500 bg-indigo-950/30' : 'border-zinc-800 bg-zinc-950'}`}
+          >
+            <div className="flex items-center gap-2 text-[10px] font-mono text-zinc-500">
+              <button onClick={() => onSeek(cue.startMs)} className="hover:text-white" title="Jump to cue">
+                {formatCueTime(cue.startMs)} → {formatCueTime(cue.endMs)}
+              </button>
+              <span>Scene {cue.sceneId}</span>
+            </div>
+            <input
+              value={cue.speaker ?? ''}
+              onChange={(e) => onChange(cue.sceneId, cue.lineIndex, { speaker: e.target.value || undefined, text: cue.text })}
+              placeholder="Narration"
+              className="w-full bg-transparent text-[10px] font-bold uppercase tracking-wider text-indigo-300 placeholder-zinc-600 focus:outline-none"
+            />
+            <textarea
+              value={cue.text}
+              onChange={(e) => onChange(cue.sceneId, cue.lineIndex, { speaker: cue.speaker, text: e.target.value })}
+              rows={2}
+              className="w-full bg-zinc-900 border border-zinc-800 rounded px-2 py-1 text-xs text-zinc-200 focus:outline-none focus:border-indigo-500 resize-none"
+            />
+          </div>
+        );
+      })}
+    </div>
+
+    <div className="p-3 border-t border-zinc-800 flex justify-end gap-2">
+      <button
+        onClick={() => onExport('vtt')}
+        disabled={cues.length === 0}
+        className="text-xs text-zinc-400 hover:text-white border border-zinc-700 px-3 py-1.5 rounded transition-colors disabled:opacity-30"
+      >
+        Export .vtt
+      </button>
+      <button
+        onClick={() => onExport('srt')}
+        disabled={cues.length === 0}
+        className="text-xs text-zinc-400 hover:text-white border border-zinc-700 px-3 py-1.5 rounded transition-colors disabled:opacity-30"
+      >
+        Export .srt
+      </button>
+    </div>
+  </div>
+);
@@ -1,43 +1,177 @@
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { AgentLog, AgentRole } from '../types';
+import { formatLatency } from '../services/trace';
 
 interface ConsoleLogProps {
   logs: AgentLog[];
+  onExport: () => void;
+  onImport: (file: File) => void;
 }
 
-export const ConsoleLog: React.FC<ConsoleLogProps> = ({ logs }) => {
+const STATUSES: AgentLog['status'][] = ['info', 'thinking', 'success', 'warning', 'error'];
+
+const STATUS_COLORS: Record<AgentLog['status'], string> = {
+  info: 'text-zinc-300',
+  thinking: 'text-zinc-400',
+  success: 'text-green-300',
+  warning: 'text-amber-300',
+  error: 'text-red-300'
+};
+
+const filterClass = 'bg-zinc-950 border border-zinc-800 rounded px-1 py-0.5 text-[10px] text-zinc-400 focus:outline-none focus:border-indigo-500';
+
+// Everything full-text search looks at, lower-cased
+const searchText = (log: AgentLog) =>
+  [log.message, log.metadata && JSON.stringify(log.metadata), log.span && JSON.stringify(log.span)].filter(Boolean).join(' ').toLowerCase();
+
+export const ConsoleLog: React.FC<ConsoleLogProps> = ({ logs, onExport, onImport }) => {
   const bottomRef = useRef<HTMLDivElement>(null);
+  const importRef = useRef<HTMLInputElement>(null);
+  const [role, setRole] = useState<AgentRole | ''>('');
+  const [status, setStatus] = useState<AgentLog['status'] | ''>('');
+  const [sceneId, setSceneId] = useState<number | ''>('');
+  const [query, setQuery] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const sceneIds = useMemo(
+    () => Array.from(new Set<number>(logs.flatMap(log => log.sceneId === undefined ? [] : [log.sceneId]))).sort((a, b) => a - b),
+    [logs]
+  );
 
+  const visible = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    return logs.filter(log =>
+      (!role || log.role === role) &&
+      (!status || log.status === status) &&
+      (sceneId === '' || log.sceneId === sceneId) &&
+      (!needle || searchText(log).includes(needle))
+    );
+  }, [logs, role, status, sceneId, query]);
+
+  // Follow new entries, unless the user is reading an expanded one
   useEffect(() => {
-    bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [logs]);
+    if (expandedId === null) bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [logs, expandedId]);
 
   const getRoleColor = (role: AgentRole) => {
     switch(role) {
       case AgentRole.DIRECTOR: return 'text-red-400';
       case AgentRole.CONTINUITY_QA: return 'text-blue-400';
+      case AgentRole.STAGE_HAND: return 'text-pink-400';
       case AgentRole.GENERATOR: return 'text-green-400';
       case AgentRole.PARSER: return 'text-yellow-400';
       default: return 'text-gray-400';
     }
   };
 
+  const isFiltered = role !== '' || status !== '' || sceneId !== '' || query.trim() !== '';
+
   return (
     <div className="flex flex-col h-full bg-black/40 rounded-lg border border-zinc-800 font-mono text-xs p-4 overflow-hidden">
       <div className="mb-2 flex items-center gap-2 border-b border-zinc-800 pb-2">
         <div className="w-2 h-2 rounded-full bg-green-500 animate-pulse"></div>
         <span className="text-zinc-400 uppercase tracking-widest text-[10px]">System Neuro-Link</span>
+        <button
+          onClick={onExport}
+          disabled={logs.length === 0}
+          className="ml-auto text-[10px] uppercase tracking-wider text-zinc-500 hover:text-indigo-400 disabled:opacity-30"
+          title="Download the trace as JSONL (Genkit trace format)"
+        >
+          Export
+        </button>
+        <button
+          onClick={() => importRef.current?.click()}
+          className="text-[10px] uppercase tracking-wider text-zinc-500 hover:text-indigo-400"
+          title="Load a JSONL trace into the log"
+        >
+          Import
+        </button>
+        <input
+          ref={importRef}
+          type="file"
+          accept=".jsonl,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = '';
+            if (file) onImport(file);
+          }}
+        />
       </div>
+
+      <div className="mb-2 flex items-center gap-2">
+        <select value={role} onChange={(e) => setRole(e.target.value as AgentRole | '')} className={filterClass}>
+          <option value="">All agents</option>
+          {Object.values(AgentRole).map(r => <option key={r} value={r}>{r}</option>)}
+        </select>
+        <select value={status} onChange={(e) => setStatus(e.target.value as AgentLog['status'] | '')} className={filterClass}>
+          <option value="">All statuses</option>
+          {STATUSES.map(s => <option key={s} value={s}>{s}</option>)}
+        </select>
+        <select value={sceneId} onChange={(e) => setSceneId(e.target.value === '' ? '' : Number(e.target.value))} className={filterClass}>
+          <option value="">All scenes</option>
+          {sceneIds.map(id => <option key={id} value={id}>Scene {id}</option>)}
+        </select>
+        <input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search"
+          className={`${filterClass} flex-1 min-w-0 px-2`}
+        />
+        {isFiltered && <span className="text-[10px] text-zinc-600 shrink-0">{visible.length}/{logs.length}</span>}
+      </div>
+
       <div className="flex-1 overflow-y-auto space-y-2 pr-2">
-        {logs.map((log) => (
-          <div key={log.id} className="flex gap-2 animate-in fade-in slide-in-from-left-2 duration-300">
-            <span className="text-zinc-600 shrink-0">[{log.timestamp.toLocaleTimeString().split(' ')[0]}]</span>
-            <span className={`font-bold shrink-0 w-24 ${getRoleColor(log.role)}`}>{log.role}</span>
-            <span className="text-zinc-300 break-words">{log.message}</span>
-          </div>
-        ))}
+        {visible.map((log) => {
+          const payload = log.span ?? log.metadata;
+          const isExpanded = expandedId === log.id;
+          return (
+            <div key={log.id} className="animate-in fade-in slide-in-from-left-2 duration-300">
+              <div
+                className={`flex gap-2 ${payload ? 'cursor-pointer hover:bg-zinc-900/60 rounded' : ''}`}
+                onClick={() => payload && setExpandedId(isExpanded ? null : log.id)}
+              >
+                <span className="text-zinc-600 shrink-0">[{log.timestamp.toLocaleTimeString().split(' ')[0]}]</span>
+                <span className={`font-bold shrink-0 w-24 ${getRoleColor(log.role)}`}>{log.role}</span>
+                <span className={`break-words ${log.span ? STATUS_COLORS[log.status] : 'text-zinc-300'}`}>
+                  {log.span && <span className="text-zinc-500">⏱ </span>}
+                  {log.message}
+                </span>
+                {payload && <span className="ml-auto shrink-0 text-zinc-600">{isExpanded ? '▾' : '▸'}</span>}
+              </div>
+              {isExpanded && (
+                <div className="mt-1 ml-4 p-2 rounded border border-zinc-800 bg-zinc-950 text-[10px] text-zinc-400 space-y-1">
+                  {log.span && (
+                    <p>
+                      {log.span.model && <>model <span className="text-zinc-200">{log.span.model}</span> · </>}
+                      latency <span className="text-zinc-200">{formatLatency(log.span.endTime - log.span.startTime)}</span> ·
+                      outcome <span className={STATUS_COLORS[log.status]}>{log.span.outcome}</span>
+                      {log.sceneId !== undefined && <> · scene <span className="text-zinc-200">{log.sceneId}</span></>}
+                    </p>
+                  )}
+                  {log.span?.error && <p className="text-red-300">{log.span.error}</p>}
+                  <pre className="whitespace-pre-wrap break-all max-h-64 overflow-y-auto text-zinc-400">
+                    {JSON.stringify(log.span ? { input: log.span.input, output: log.span.output } : log.metadata, null, 2)}
+                  </pre>
+                  {log.span?.prompt && (
+                    <>
+                      <p className="text-zinc-500 uppercase tracking-widest">Prompt sent</p>
+                      <pre className="whitespace-pre-wrap break-all max-h-64 overflow-y-auto text-zinc-400">{log.span.prompt}</pre>
+                    </>
+                  )}
+                  {log.span?.response && (
+                    <>
+                      <p className="text-zinc-500 uppercase tracking-widest">Raw response</p>
+                      <pre className="whitespace-pre-wrap break-all max-h-64 overflow-y-auto text-zinc-400">{log.span.response}</pre>
+                    </>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
         <div ref={bottomRef} />
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
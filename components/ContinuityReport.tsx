@@ -0,0 +1,45 @@
+import React from 'react';
+import { ContinuityFinding, ContinuitySeverity } from '../types';
+
+interface ContinuityReportProps {
+  reasoning?: string;
+  findings?: ContinuityFinding[];
+}
+
+const SEVERITY_STYLES: Record<ContinuitySeverity, string> = {
+  [ContinuitySeverity.LOW]: 'bg-zinc-800 text-zinc-400',
+  [ContinuitySeverity.MEDIUM]: 'bg-amber-900 text-amber-300',
+  [ContinuitySeverity.HIGH]: 'bg-red-900 text-red-300'
+};
+
+/**
+ * Gallery QA block: the extension decision, then each visual mismatch found between the
+ * previous clip's last frame and this scene's start frame.
+ */
+export const ContinuityReport: React.FC<ContinuityReportProps> = ({ reasoning, findings }) => (
+  <div className="p-3 bg-blue-900/10 border-t border-zinc-800 space-y-2">
+    {reasoning && (
+      <p className="text-[10px] font-mono text-blue-300">
+        <span className="font-bold text-blue-400">QA Note:</span> {reasoning}
+      </p>
+    )}
+    {findings && findings.length === 0 && (
+      <p className="text-[10px] font-mono text-blue-300">
+        <span className="font-bold text-blue-400">Visual QA:</span> Start frame matches the end of the previous clip.
+      </p>
+    )}
+    {findings && findings.length > 0 && (
+      <ul className="space-y-1">
+        {findings.map((finding, i) => (
+          <li key={i} className="flex items-start gap-2 text-[10px] font-mono text-zinc-300">
+            <span className={`uppercase px-1.5 rounded font-bold shrink-0 ${SEVERITY_STYLES[finding.severity]}`}>
+              {finding.severity}
+            </span>
+            <span className="uppercase text-zinc-500 shrink-0 w-16">{finding.category}</span>
+            <span>{finding.description}</span>
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
@@ -0,0 +1,83 @@
+import React, { useState, useEffect } from 'react';
+import { ProjectSummary } from '../types';
+import { listProjects, deleteProject } from '../services/projectStore';
+
+interface ProjectBrowserProps {
+  currentProjectId: string | null;
+  onOpen: (id: string) => void;
+  onClose: () => void;
+}
+
+export const ProjectBrowser: React.FC<ProjectBrowserProps> = ({ currentProjectId, onOpen, onClose }) => {
+  const [projects, setProjects] = useState<ProjectSummary[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = () => {
+    listProjects()
+      .then(setProjects)
+      .catch((e: any) => setError(e?.message || 'Could not read saved productions'));
+  };
+
+  useEffect(refresh, []);
+
+  const handleDelete = async (id: string) => {
+    await deleteProject(id);
+    refresh();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/80 flex items-center justify-center animate-in fade-in duration-300" onClick={onClose}>
+      <div
+        className="w-full max-w-xl max-h-[70vh] flex flex-col bg-zinc-900 border border-zinc-800 rounded-xl shadow-2xl overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-zinc-800 flex justify-between items-center">
+          <h2 className="text-sm font-bold uppercase tracking-wider text-zinc-400">Saved Productions</h2>
+          <button onClick={onClose} className="text-zinc-500 hover:text-white">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-2">
+          {error && <p className="text-xs font-mono text-red-400">{error}</p>}
+          {!error && projects === null && <p className="text-xs font-mono text-zinc-500">Loading...</p>}
+          {projects?.length === 0 && (
+            <p className="text-xs font-mono text-zinc-600 text-center py-8">No productions saved yet.</p>
+          )}
+          {projects?.map(project => (
+            <div
+              key={project.id}
+              className={`flex items-center justify-between p-3 rounded-lg border ${
+                project.id === currentProjectId ? 'border-indigo-500 bg-indigo-900/20' : 'border-zinc-800 bg-zinc-950'
+              }`}
+            >
+              <div className="min-w-0">
+                <p className="font-bold text-sm text-zinc-200 truncate">{project.name}</p>
+                <p className="text-[10px] font-mono text-zinc-500">
+                  {project.completedCount}/{project.sceneCount} scenes wrapped · {project.updatedAt.toLocaleString()}
+                </p>
+              </div>
+              <div className="flex gap-2 shrink-0">
+                <button
+                  onClick={() => onOpen(project.id)}
+                  className="text-xs bg-indigo-600 hover:bg-indigo-500 text-white px-3 py-1 rounded transition-colors"
+                >
+                  Open
+                </button>
+                <button
+                  onClick={() => handleDelete(project.id)}
+                  disabled={project.id === currentProjectId}
+                  className="text-xs text-zinc-500 hover:text-red-400 px-2 py-1 disabled:opacity-30 disabled:hover:text-zinc-500"
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,55 @@
+import React from 'react';
+import { PromptLint, PromptRewrite } from '../types';
+
+interface PromptSafetyReportProps {
+  lint?: PromptLint; // Only passed while it matches the scene's current prompt
+  rewrites?: PromptRewrite[];
+  disabled?: boolean;
+  onUseSuggestion: () => void;
+}
+
+/**
+ * Gallery safety block: what the pre-flight check expects a safety filter to refuse, with its
+ * suggested rewrite, then every rewrite the prompt has been through and why.
+ */
+export const PromptSafetyReport: React.FC<PromptSafetyReportProps> = ({ lint, rewrites, disabled, onUseSuggestion }) => (
+  <div className="p-3 bg-rose-900/10 border-t border-zinc-800 space-y-2">
+    {lint && lint.risks.length > 0 && (
+      <>
+        <ul className="space-y-1">
+          {lint.risks.map((risk, i) => (
+            <li key={i} className="flex items-start gap-2 text-[10px] font-mono text-zinc-300">
+              <span className="uppercase px-1.5 rounded font-bold shrink-0 bg-rose-900 text-rose-300">
+                {risk.category.replace('_', ' ')}
+              </span>
+              <span>"{risk.excerpt}": {risk.reason}</span>
+            </li>
+          ))}
+        </ul>
+        {lint.suggestedPrompt && (
+          <div className="flex items-start gap-2">
+            <p className="text-[10px] font-mono text-rose-300">
+              <span className="font-bold text-rose-400">Suggested:</span> {lint.suggestedPrompt}
+            </p>
+            <button
+              onClick={onUseSuggestion}
+              disabled={disabled}
+              className="shrink-0 text-[10px] uppercase tracking-wider font-mono text-zinc-500 hover:text-rose-300 px-2 py-0.5 border border-zinc-800 rounded disabled:opacity-30"
+            >
+              Use suggestion
+            </button>
+          </div>
+        )}
+      </>
+    )}
+    {rewrites?.map((rewrite, i) => (
+      <div key={i} className="text-[10px] font-mono space-y-0.5">
+        <p className="text-zinc-500">
+          <span className="font-bold text-rose-400">Rewritten</span> {rewrite.timestamp.toLocaleString()}: {rewrite.reason}
+        </p>
+        <p className="text-zinc-600 line-through">{rewrite.originalPrompt}</p>
+        <p className="text-zinc-300">{rewrite.rewrittenPrompt}</p>
+      </div>
+    ))}
+  </div>
+);
@@ -0,0 +1,143 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { ScriptScene } from '../types';
+import { renderReel, canRenderReel, RenderedReel, RenderProgress } from '../services/reelRenderer';
+import { downloadBlob, downloadText } from '../services/download';
+import { buildCaptionCues, toSrt, toWebVtt } from '../services/captions';
+
+interface ReelExportProps {
+  scenes: ScriptScene[]; // Completed scenes in reel order
+  fileStem: string;
+  onClose: () => void;
+}
+
+export const ReelExport: React.FC<ReelExportProps> = ({ scenes, fileStem, onClose }) => {
+  const [progress, setProgress] = useState<RenderProgress | null>(null);
+  const [result, setResult] = useState<RenderedReel | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Closing the dialog cancels a render in progress
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  const supported = canRenderReel();
+  const isRendering = progress !== null && !result && !error;
+  const hasCaptions = scenes.some(s => s.captions?.length);
+
+  // Timed from the clips as rendered, so the files line up with the downloaded reel
+  const downloadCaptions = (format: 'vtt' | 'srt') => {
+    if (!result) return;
+    const cues = buildCaptionCues(scenes, scene => result.clipDurationsMs[scene.id] ?? 0);
+    downloadText(
+      `${fileStem}.${format}`,
+      format === 'vtt' ? toWebVtt(cues) : toSrt(cues),
+      format === 'vtt' ? 'text/vtt' : 'application/x-subrip'
+    );
+  };
+
+  const handleRender = async () => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setResult(null);
+    setError(null);
+    setProgress({ sceneId: scenes[0].id, fraction: 0 });
+
+    try {
+      setResult(await renderReel(scenes, setProgress, controller.signal));
+    } catch (e: any) {
+      if (!controller.signal.aborted) setError(e?.message || 'Rendering failed');
+    } finally {
+      abortControllerRef.current = null;
+    }
+  };
+
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+    setProgress(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/80 flex items-center justify-center animate-in fade-in duration-300" onClick={isRendering ? undefined : onClose}>
+      <div
+        className="w-full max-w-md bg-zinc-900 border border-zinc-800 rounded-xl shadow-2xl overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-zinc-800 flex justify-between items-center">
+          <h2 className="text-sm font-bold uppercase tracking-wider text-zinc-400">Render Reel</h2>
+          <button onClick={onClose} className="text-zinc-500 hover:text-white">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-4 space-y-3">
+          <p className="text-xs font-mono text-zinc-400">
+            {scenes.length} scene(s) are joined in order into one video file with their audio, using the
+            transition set on each cut. Rendering plays the reel in real time, so keep this tab in front
+            until it finishes.
+          </p>
+
+          {!supported && (
+            <p className="text-xs font-mono text-red-400">This browser can't record video. Try a recent Chrome or Firefox.</p>
+          )}
+
+          {progress && (
+            <div>
+              <div className="h-2 rounded bg-zinc-800 overflow-hidden">
+                <div className="h-full bg-indigo-500 transition-all" style={{ width: `${Math.round(progress.fraction * 100)}%` }} />
+              </div>
+              <p className="mt-1 text-[10px] font-mono text-zinc-500">
+                {result ? 'Done' : `Scene ${progress.sceneId} · ${Math.round(progress.fraction * 100)}%`}
+              </p>
+            </div>
+          )}
+
+          {error && <p className="text-xs font-mono text-red-400">{error}</p>}
+        </div>
+
+        <div className="p-4 border-t border-zinc-800 flex justify-end gap-2">
+          {isRendering ? (
+            <button
+              onClick={handleCancel}
+              className="text-xs text-zinc-400 hover:text-white border border-zinc-700 px-3 py-1.5 rounded transition-colors"
+            >
+              Cancel
+            </button>
+          ) : (
+            <button
+              onClick={handleRender}
+              disabled={!supported || scenes.length === 0}
+              className="text-xs text-zinc-400 hover:text-white border border-zinc-700 px-3 py-1.5 rounded transition-colors disabled:opacity-30"
+            >
+              {result || error ? 'Render again' : 'Render'}
+            </button>
+          )}
+          {result && hasCaptions && (
+            <>
+              <button
+                onClick={() => downloadCaptions('vtt')}
+                className="text-xs text-zinc-400 hover:text-white border border-zinc-700 px-3 py-1.5 rounded transition-colors"
+              >
+                .vtt
+              </button>
+              <button
+                onClick={() => downloadCaptions('srt')}
+                className="text-xs text-zinc-400 hover:text-white border border-zinc-700 px-3 py-1.5 rounded transition-colors"
+              >
+                .srt
+              </button>
+            </>
+          )}
+          {result && (
+            <button
+              onClick={() => downloadBlob(`${fileStem}.${result.extension}`, result.blob)}
+              className="text-xs bg-indigo-600 hover:bg-indigo-500 text-white px-3 py-1.5 rounded transition-colors"
+            >
+              Download .{result.extension} ({(result.blob.size / 1024 / 1024).toFixed(1)} MB)
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
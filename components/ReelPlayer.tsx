@@ -1,116 +1,539 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { ScriptScene, SceneStatus } from '../types';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { ScriptScene, SceneStatus, SceneTransition, TransitionType, CaptionLine } from '../types';
+import { TRANSITION_LABELS, dipColor, isCut, isDip, transitionInto, transitionSpan } from '../services/transitions';
+import { FRESH_SHOT_SECONDS } from '../services/costs';
+import { buildCaptionCues, cueAt, toSrt, toWebVtt } from '../services/captions';
+import { downloadText } from '../services/download';
+import { CaptionEditor } from './CaptionEditor';
 
 interface ReelPlayerProps {
   scenes: ScriptScene[];
+  fileStem: string;
+  onUpdateCaption: (sceneId: number, lineIndex: number, line: CaptionLine) => void;
   onClose: () => void;
 }
 
-export const ReelPlayer: React.FC<ReelPlayerProps> = ({ scenes, onClose }) => {
+type Slot = 0 | 1;
+
+// A dissolve or wipe in progress: the outgoing player stays on its last frame above the incoming one
+interface Blend {
+  from: Slot;
+  transition: SceneTransition;
+}
+
+// Browsers can't play video backwards, so J jumps back instead of shuttling in reverse
+const REWIND_MS = 5000;
+const PLAYBACK_RATES = [1, 2, 4];
+
+const formatTime = (ms: number) => {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+const SHORTCUTS = 'Space play/pause · J back 5s · K pause · L play/faster · ←/→ scenes · C captions · D debug';
+
+/**
+ * REEL PLAYER: Plays the completed scenes as one continuous reel. Two stacked players take turns:
+ * while one shows the current clip the other has the next clip loaded, so cuts are seamless.
+ * Transitions follow each scene's `transitionIn`, the same way the reel renderer draws them.
+ */
+export const ReelPlayer: React.FC<ReelPlayerProps> = ({ scenes, fileStem, onUpdateCaption, onClose }) => {
   // Filter only completed scenes with valid URIs
-  const playableScenes = scenes.filter(
-    s => s.status === SceneStatus.COMPLETED && s.videoUri
+  const playableScenes = useMemo(
+    () => scenes.filter(s => s.status === SceneStatus.COMPLETED && s.videoUri),
+    [scenes]
   );
 
+  const [slotScenes, setSlotScenes] = useState<(number | null)[]>([0, playableScenes.length > 1 ? 1 : null]);
+  const [activeSlot, setActiveSlot] = useState<Slot>(0);
   const [currentIndex, setCurrentIndex] = useState(0);
+  const [blendingFrom, setBlendingFrom] = useState<Slot | null>(null);
   const [isPlaying, setIsPlaying] = useState(false);
-  const [opacity, setOpacity] = useState(1);
+  const [finished, setFinished] = useState(false);
+  const [playheadMs, setPlayheadMs] = useState(0);
+  const [rateIndex, setRateIndex] = useState(0);
+  const [durations, setDurations] = useState<Record<number, number>>({});
+  const [showDebug, setShowDebug] = useState(false);
+  const [showCaptions, setShowCaptions] = useState(true);
+  const [editingCaptions, setEditingCaptions] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const videoRef = useRef<HTMLVideoElement>(null);
 
+  const videoARef = useRef<HTMLVideoElement>(null);
+  const videoBRef = useRef<HTMLVideoElement>(null);
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const trackRef = useRef<HTMLDivElement>(null);
+  const blendRef = useRef<Blend | null>(null);
+  const pendingSeekRef = useRef<{ slot: Slot; ms: number; play: boolean } | null>(null);
+  const resumeAfterScrubRef = useRef(false);
+
+  const videoAt = (slot: Slot) => (slot === 0 ? videoARef : videoBRef).current;
+
+  // Until a clip's metadata arrives it is assumed to be a standard-length shot
+  const durationOf = (index: number) => durations[playableScenes[index]?.id] ?? FRESH_SHOT_SECONDS * 1000;
+  const offsets = useMemo(() => {
+    const starts: number[] = [];
+    let total = 0;
+    playableScenes.forEach(scene => {
+      starts.push(total);
+      total += durations[scene.id] ?? FRESH_SHOT_SECONDS * 1000;
+    });
+    return { starts, total };
+  }, [playableScenes, durations]);
+
+  // Event handlers and the paint loop read the latest state through this ref
+  const live = useRef({ currentIndex, activeSlot, slotScenes, offsets, isPlaying, finished });
+  live.current = { currentIndex, activeSlot, slotScenes, offsets, isPlaying, finished };
+
+  const setDuration = (sceneId: number, ms: number) => {
+    if (!Number.isFinite(ms)) return;
+    setDurations(prev => (prev[sceneId] === ms ? prev : { ...prev, [sceneId]: ms }));
+  };
+
+  // Read every clip's length up front so the scrubber covers the whole reel. Keyed on the clips
+  // themselves, so caption edits (which replace the scenes) don't probe again
+  const clipKey = playableScenes.map(s => `${s.id}:${s.videoUri}`).join('|');
   useEffect(() => {
-    // Reset error on index change
+    const probes = playableScenes.map(scene => {
+      const probe = document.createElement('video');
+      probe.preload = 'metadata';
+      probe.onloadedmetadata = () => setDuration(scene.id, probe.duration * 1000);
+      probe.src = scene.videoUri!;
+      return probe;
+    });
+    return () => probes.forEach(probe => {
+      probe.onloadedmetadata = null;
+      probe.removeAttribute('src');
+      probe.load();
+    });
+  }, [clipKey]);
+
+  // Keep the next clip loaded in the hidden player, once it's no longer needed for a blend
+  useEffect(() => {
+    if (blendingFrom !== null) return;
+    const inactive = activeSlot === 0 ? 1 : 0;
+    const next = currentIndex + 1 < playableScenes.length ? currentIndex + 1 : null;
+    setSlotScenes(prev => {
+      if (prev[inactive] === next) return prev;
+      const updated = [...prev];
+      updated[inactive] = next;
+      return updated;
+    });
+  }, [currentIndex, activeSlot, blendingFrom, playableScenes.length]);
+
+  useEffect(() => {
+    const rate = PLAYBACK_RATES[rateIndex];
+    // Loading a new clip resets playbackRate to the default, so set both
+    [videoARef.current, videoBRef.current].forEach(video => {
+      if (!video) return;
+      video.defaultPlaybackRate = rate;
+      video.playbackRate = rate;
+    });
+  }, [rateIndex, slotScenes]);
+
+  const play = (video: HTMLVideoElement | null) => {
+    video?.play().catch(e => {
+      // Usually the autoplay policy; the user can start playback themselves
+      console.error("Playback failed:", e);
+      setIsPlaying(false);
+    });
+  };
+
+  const endBlend = () => {
+    blendRef.current = null;
+    setBlendingFrom(null);
+  };
+
+  /**
+   * Jumps to `ms` into the clip at `index`, using whichever player already has it loaded.
+   */
+  const goTo = (index: number, ms: number, autoplay: boolean) => {
+    const { activeSlot: active, slotScenes: loaded } = live.current;
+    const inactive: Slot = active === 0 ? 1 : 0;
+    const target = loaded[active] === index ? active : loaded[inactive] === index ? inactive : null;
+
+    endBlend();
+    setFinished(false);
     setError(null);
-    // Auto-play when component mounts or index changes
-    const video = videoRef.current;
-    if (video) {
-      video.play().catch(e => {
-        console.error("Autoplay failed:", e);
-        // Don't set error here immediately as it might just be autoplay policy
+    videoAt(inactive)?.pause();
+
+    if (target === null) {
+      // Neither player has the clip: load it into the visible one and seek once it's ready
+      videoAt(active)?.pause();
+      pendingSeekRef.current = { slot: active, ms, play: autoplay };
+      setSlotScenes(prev => {
+        const updated = [...prev];
+        updated[active] = index;
+        return updated;
       });
-      setIsPlaying(true);
+    } else {
+      if (target !== active) videoAt(active)?.pause();
+      const video = videoAt(target);
+      if (video) {
+        video.currentTime = ms / 1000;
+        if (autoplay) play(video);
+      }
+      setActiveSlot(target);
+    }
+    setCurrentIndex(index);
+  };
+
+  const seekReel = (reelMs: number, autoplay = live.current.isPlaying) => {
+    const { starts, total } = live.current.offsets;
+    const clamped = Math.min(Math.max(reelMs, 0), total - 1);
+    let index = 0;
+    while (index + 1 < starts.length && starts[index + 1] <= clamped) index++;
+    goTo(index, clamped - starts[index], autoplay);
+  };
+
+  const handleLoadedMetadata = (slot: Slot) => {
+    const video = videoAt(slot);
+    const index = live.current.slotScenes[slot];
+    if (video && index !== null) setDuration(playableScenes[index].id, video.duration * 1000);
+
+    const pending = pendingSeekRef.current;
+    if (video && pending?.slot === slot) {
+      pendingSeekRef.current = null;
+      video.currentTime = pending.ms / 1000;
+      if (pending.play) play(video);
     }
-  }, [currentIndex]);
+  };
 
-  const handleVideoEnd = () => {
-    const nextIndex = currentIndex + 1;
+  const handleEnded = (slot: Slot) => {
+    const { activeSlot: active, currentIndex: index, slotScenes: loaded } = live.current;
+    if (slot !== active) return;
 
-    // Check if we reached the end
-    if (nextIndex >= playableScenes.length) {
+    const next = index + 1;
+    if (next >= playableScenes.length) {
       setIsPlaying(false);
+      setFinished(true);
       return;
     }
 
-    const nextScene = playableScenes[nextIndex];
-    const isDirectCut = nextScene.isExtension;
+    const incoming: Slot = active === 0 ? 1 : 0;
+    if (loaded[incoming] !== next) {
+      // The next clip wasn't preloaded (e.g. right after a seek); fall back to loading it now
+      goTo(next, 0, true);
+      return;
+    }
 
-    if (isDirectCut) {
-      // DIRECT CUT: Immediate switch
-      setCurrentIndex(nextIndex);
-    } else {
-      // FADE EFFECT: Fade out -> Switch -> Fade In
-      setOpacity(0); // Fade out
-      setTimeout(() => {
-        setCurrentIndex(nextIndex);
-        // Allow DOM to update source then fade back in
-        setTimeout(() => {
-          setOpacity(1);
-        }, 100); 
-      }, 600); // Wait for CSS transition (500ms)
+    const transition = transitionInto(playableScenes[next]);
+    const video = videoAt(incoming);
+    if (video) {
+      video.currentTime = 0;
+      play(video);
+    }
+    if (!isCut(transition) && !isDip(transition)) {
+      blendRef.current = { from: active, transition };
+      setBlendingFrom(active);
+    }
+    setActiveSlot(incoming);
+    setCurrentIndex(next);
+  };
+
+  // PAINT LOOP: Applies transitions frame by frame and moves the playhead
+  useEffect(() => {
+    let frame = 0;
+    const paint = () => {
+      frame = requestAnimationFrame(paint);
+      const { activeSlot: active, currentIndex: index, offsets: { starts } } = live.current;
+      const video = videoAt(active);
+      if (!video) return;
+
+      const tMs = video.currentTime * 1000;
+      const clipMs = Number.isFinite(video.duration) ? video.duration * 1000 : durationOf(index);
+      const transitionIn = index > 0 ? transitionInto(playableScenes[index]) : null;
+      const transitionOut = index + 1 < playableScenes.length ? transitionInto(playableScenes[index + 1]) : null;
+
+      // Dips fade picture and sound through a colour around the cut
+      let dip = 0;
+      let color = '#000';
+      if (transitionIn && isDip(transitionIn)) {
+        const { inMs } = transitionSpan(transitionIn);
+        if (inMs > 0 && tMs < inMs) {
+          dip = 1 - tMs / inMs;
+          color = dipColor(transitionIn);
+        }
+      }
+      if (transitionOut && isDip(transitionOut)) {
+        const { outMs } = transitionSpan(transitionOut);
+        const fadeOut = outMs > 0 ? (tMs - (clipMs - outMs)) / outMs : 0;
+        if (fadeOut > dip) {
+          dip = Math.min(fadeOut, 1);
+          color = dipColor(transitionOut);
+        }
+      }
+      if (overlayRef.current) {
+        overlayRef.current.style.backgroundColor = color;
+        overlayRef.current.style.opacity = String(dip);
+      }
+      video.volume = 1 - dip;
+
+      // Dissolves fade the held frame out; wipes uncover the incoming clip from the left
+      const blend = blendRef.current;
+      const progress = blend ? Math.min(tMs / transitionSpan(blend.transition).inMs, 1) : 1;
+      if (blend && progress >= 1) endBlend();
+
+      ([0, 1] as Slot[]).forEach(slot => {
+        const element = videoAt(slot);
+        if (!element) return;
+        const held = blend?.from === slot && progress < 1;
+        const wipe = blend?.transition.type === TransitionType.WIPE;
+        element.style.zIndex = held ? '2' : '1';
+        element.style.opacity = slot === active ? '1' : held && !wipe ? String(1 - progress) : held ? '1' : '0';
+        element.style.clipPath = held && wipe ? `inset(0 0 0 ${progress * 100}%)` : 'none';
+      });
+
+      setPlayheadMs((starts[index] ?? 0) + tMs);
+      setIsPlaying(!video.paused);
+    };
+    paint();
+    return () => cancelAnimationFrame(frame);
+  }, [playableScenes, durations]);
+
+  const togglePlay = () => {
+    if (live.current.finished) {
+      goTo(0, 0, true);
+      return;
+    }
+    const video = videoAt(live.current.activeSlot);
+    if (video?.paused) play(video);
+    else video?.pause();
+  };
+
+  // KEYBOARD SHORTCUTS: Read through a ref so the listener always sees the current state
+  const keyHandlerRef = useRef<(e: KeyboardEvent) => void>(() => {});
+  keyHandlerRef.current = (e: KeyboardEvent) => {
+    // Typing in the caption editor shouldn't drive the transport
+    if ((e.target as HTMLElement).closest?.('input, textarea, select') && e.key !== 'Escape') return;
+    const video = videoAt(activeSlot);
+    switch (e.key) {
+      case ' ':
+        e.preventDefault();
+        togglePlay();
+        break;
+      case 'k':
+      case 'K':
+        video?.pause();
+        setRateIndex(0);
+        break;
+      case 'l':
+      case 'L':
+        // Pressing L while playing speeds up, as in an NLE
+        if (isPlaying) setRateIndex(i => Math.min(i + 1, PLAYBACK_RATES.length - 1));
+        else togglePlay();
+        break;
+      case 'j':
+      case 'J':
+        seekReel(playheadMs - REWIND_MS);
+        break;
+      case 'ArrowLeft':
+        e.preventDefault();
+        // Back to the start of this scene, or the previous one when already there
+        goTo(playheadMs - offsets.starts[currentIndex] > 1000 ? currentIndex : Math.max(currentIndex - 1, 0), 0, isPlaying);
+        break;
+      case 'ArrowRight':
+        e.preventDefault();
+        if (currentIndex + 1 < playableScenes.length) goTo(currentIndex + 1, 0, isPlaying);
+        break;
+      case 'c':
+      case 'C':
+        setShowCaptions(show => !show);
+        break;
+      case 'd':
+      case 'D':
+        setShowDebug(show => !show);
+        break;
+      case 'Escape':
+        onClose();
+        break;
     }
   };
 
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => keyHandlerRef.current(e);
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  // Start playing as soon as the first clip can
+  useEffect(() => {
+    play(videoARef.current);
+  }, []);
+
+  const scrubTo = (e: React.PointerEvent<HTMLDivElement>) => {
+    const track = trackRef.current;
+    if (!track) return;
+    const { left, width } = track.getBoundingClientRect();
+    seekReel(((e.clientX - left) / width) * offsets.total, resumeAfterScrubRef.current);
+  };
+
+  const cues = useMemo(
+    () => buildCaptionCues(playableScenes, scene => durations[scene.id] ?? FRESH_SHOT_SECONDS * 1000),
+    [playableScenes, durations]
+  );
+  const activeCue = cueAt(cues, playheadMs);
+
+  const exportCaptions = (format: 'vtt' | 'srt') => {
+    downloadText(
+      `${fileStem}.${format}`,
+      format === 'vtt' ? toWebVtt(cues) : toSrt(cues),
+      format === 'vtt' ? 'text/vtt' : 'application/x-subrip'
+    );
+  };
+
   const currentScene = playableScenes[currentIndex];
 
   if (!currentScene) return null;
 
+  const renderVideo = (slot: Slot) => {
+    const index = slotScenes[slot];
+    return (
+      <video
+        ref={slot === 0 ? videoARef : videoBRef}
+        src={index !== null ? playableScenes[index]?.videoUri : undefined}
+        preload="auto"
+        playsInline
+        className="absolute inset-0 w-full h-full object-contain"
+        onLoadedMetadata={() => handleLoadedMetadata(slot)}
+        onEnded={() => handleEnded(slot)}
+        onError={(e) => {
+          if (slot !== live.current.activeSlot) return;
+          const err = (e.target as HTMLVideoElement).error;
+          setError(`Error code: ${err?.code} - ${err?.message || 'Unknown error loading video resource'}`);
+        }}
+        onClick={togglePlay}
+      />
+    );
+  };
+
+  const inactiveSlot: Slot = activeSlot === 0 ? 1 : 0;
+  const preloadedIndex = slotScenes[inactiveSlot];
+
   return (
     <div className="fixed inset-0 z-[100] bg-black flex flex-col items-center justify-center animate-in fade-in duration-300">
-      {/* DEBUG OVERLAY */}
-      <div className="absolute top-20 left-6 z-50 bg-black/80 text-green-400 p-4 font-mono text-xs border border-green-800 rounded max-w-md overflow-hidden break-all">
-        <h4 className="font-bold text-white mb-2">DEBUG INFO</h4>
-        <p><span className="text-zinc-500">Scene ID:</span> {currentScene.id}</p>
-        <p><span className="text-zinc-500">Status:</span> {currentScene.status}</p>
-        <p><span className="text-zinc-500">URI:</span> {currentScene.videoUri}</p>
-        <p><span className="text-zinc-500">Opacity:</span> {opacity}</p>
-        <p><span className="text-zinc-500">Error:</span> {error || 'None'}</p>
-        <p><span className="text-zinc-500">Player Ready:</span> {videoRef.current?.readyState}</p>
-      </div>
+      {/* DEBUG PANEL (D) */}
+      {showDebug && (
+        <div className="absolute top-20 left-6 z-50 bg-black/80 text-green-400 p-4 font-mono text-xs border border-green-800 rounded max-w-md overflow-hidden break-all">
+          <h4 className="font-bold text-white mb-2">DEBUG INFO</h4>
+          <p><span className="text-zinc-500">Scene ID:</span> {currentScene.id}</p>
+          <p><span className="text-zinc-500">Status:</span> {currentScene.status}</p>
+          <p><span className="text-zinc-500">URI:</span> {currentScene.videoUri}</p>
+          <p><span className="text-zinc-500">Transition In:</span> {currentIndex > 0 ? TRANSITION_LABELS[transitionInto(currentScene).type] : 'None'}</p>
+          <p><span className="text-zinc-500">Active Player:</span> {activeSlot === 0 ? 'A' : 'B'} (ready {videoAt(activeSlot)?.readyState ?? '-'})</p>
+          <p><span className="text-zinc-500">Preloaded:</span> {preloadedIndex !== null ? `Scene ${playableScenes[preloadedIndex]?.id} (ready ${videoAt(inactiveSlot)?.readyState ?? '-'})` : 'None'}</p>
+          <p><span className="text-zinc-500">Rate:</span> {PLAYBACK_RATES[rateIndex]}x</p>
+          <p><span className="text-zinc-500">Error:</span> {error || 'None'}</p>
+        </div>
+      )}
 
       {/* Player Container */}
       <div className="relative w-full h-full max-w-7xl max-h-screen flex items-center justify-center">
-        <video
-          ref={videoRef}
-          src={currentScene.videoUri}
-          className="max-w-full max-h-full transition-opacity duration-500 ease-in-out"
-          style={{ opacity: opacity }}
-          onEnded={handleVideoEnd}
-          onLoadStart={() => console.log('Video LoadStart:', currentScene.videoUri)}
-          onLoadedData={() => console.log('Video LoadedData')}
-          onCanPlay={() => console.log('Video CanPlay')}
-          onError={(e) => {
-            const target = e.target as HTMLVideoElement;
-            const err = target.error;
-            console.error('Video Error Event:', err);
-            setError(`Error code: ${err?.code} - ${err?.message || 'Unknown error loading video resource'}`);
-          }}
-          onClick={() => {
-            if (videoRef.current?.paused) videoRef.current.play();
-            else videoRef.current?.pause();
-          }}
-          controls={true} // Enable default controls for debugging
-        />
-        
+        {renderVideo(0)}
+        {renderVideo(1)}
+
+        <div ref={overlayRef} className="absolute inset-0 z-10 pointer-events-none" style={{ opacity: 0 }} />
+
+        {/* CAPTIONS (C) */}
+        {showCaptions && activeCue && (
+          <div className="absolute bottom-28 inset-x-0 z-20 flex justify-center px-12 pointer-events-none">
+            <p className="max-w-3xl text-center text-lg text-white bg-black/75 px-4 py-1.5 rounded">
+              {activeCue.speaker && <span className="font-bold text-indigo-300 uppercase text-sm mr-2">{activeCue.speaker}</span>}
+              {activeCue.text}
+            </p>
+          </div>
+        )}
+
         {/* Overlay Info (Briefly shows scene info on start or hover) */}
-        <div className="absolute bottom-12 left-0 right-0 p-8 pointer-events-none opacity-0 hover:opacity-100 transition-opacity duration-300 flex justify-center">
+        <div className="absolute top-12 left-0 right-0 z-20 p-8 pointer-events-none opacity-0 hover:opacity-100 transition-opacity duration-300 flex justify-center">
           <div className="bg-black/60 backdrop-blur-md px-6 py-3 rounded-full text-white font-mono text-sm border border-white/10">
             Playing Scene {currentScene.id}: {currentScene.title}
           </div>
         </div>
+
+        {error && !showDebug && (
+          <div className="absolute top-6 left-6 z-20 bg-black/80 text-red-400 px-4 py-2 font-mono text-xs border border-red-900 rounded">
+            {error}
+          </div>
+        )}
       </div>
 
+      {/* TRANSPORT: Scrubber with scene markers, then controls */}
+      <div className="absolute bottom-0 inset-x-0 z-30 px-6 pb-5 pt-10 bg-gradient-to-t from-black/90 to-transparent">
+        <div
+          ref={trackRef}
+          className="relative h-2 rounded bg-zinc-800 cursor-pointer"
+          onPointerDown={(e) => {
+            e.currentTarget.setPointerCapture(e.pointerId);
+            // Loading another clip pauses playback, so remember whether to carry on
+            resumeAfterScrubRef.current = isPlaying;
+            scrubTo(e);
+          }}
+          onPointerMove={(e) => { if (e.currentTarget.hasPointerCapture(e.pointerId)) scrubTo(e); }}
+        >
+          <div
+            className="absolute inset-y-0 left-0 rounded bg-indigo-500"
+            style={{ width: `${Math.min(playheadMs / offsets.total, 1) * 100}%` }}
+          />
+          {playableScenes.map((scene, i) => (
+            <div
+              key={scene.id}
+              className="group absolute -top-1 -bottom-1 w-0.5 bg-white/60"
+              style={{ left: `${(offsets.starts[i] / offsets.total) * 100}%` }}
+            >
+              <span className="absolute bottom-full mb-2 -translate-x-1/2 whitespace-nowrap rounded bg-zinc-900/90 border border-zinc-700 px-2 py-0.5 text-[10px] font-mono text-zinc-300 opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none">
+                Scene {scene.id}: {scene.title}
+              </span>
+            </div>
+          ))}
+        </div>
+
+        <div className="mt-3 flex items-center gap-4 text-xs font-mono text-zinc-400">
+          <button onClick={togglePlay} className="text-white hover:text-indigo-300" title="Play/Pause (Space)">
+            {isPlaying ? (
+              <svg className="w-5 h-5 fill-current" viewBox="0 0 24 24"><path d="M6 5h4v14H6zM14 5h4v14h-4z"/></svg>
+            ) : (
+              <svg className="w-5 h-5 fill-current" viewBox="0 0 24 24"><path d="M8 5v14l11-7z"/></svg>
+            )}
+          </button>
+          <span>{formatTime(playheadMs)} / {formatTime(offsets.total)}</span>
+          <span className="truncate text-zinc-300">Scene {currentScene.id}: {currentScene.title}</span>
+          {rateIndex > 0 && <span className="text-indigo-300">{PLAYBACK_RATES[rateIndex]}x</span>}
+          <span className="ml-auto hidden md:inline text-[10px] text-zinc-600">{SHORTCUTS}</span>
+          <button
+            onClick={() => setShowCaptions(show => !show)}
+            title="Toggle captions (C)"
+            className={`text-[10px] uppercase tracking-wider border px-2 py-0.5 rounded ${showCaptions ? 'border-indigo-500 text-indigo-300' : 'border-zinc-700 text-zinc-500 hover:text-white'}`}
+          >
+            CC
+          </button>
+          <button
+            onClick={() => setEditingCaptions(editing => !editing)}
+            className={`text-[10px] uppercase tracking-wider border px-2 py-0.5 rounded ${editingCaptions ? 'border-indigo-500 text-indigo-300' : 'border-zinc-700 text-zinc-500 hover:text-white'}`}
+          >
+            Edit Captions
+          </button>
+          <button
+            onClick={() => setShowDebug(show => !show)}
+            className={`text-[10px] uppercase tracking-wider border px-2 py-0.5 rounded ${showDebug ? 'border-green-800 text-green-400' : 'border-zinc-700 text-zinc-500 hover:text-white'}`}
+          >
+            Debug
+          </button>
+        </div>
+      </div>
+
+      {editingCaptions && (
+        <CaptionEditor
+          cues={cues}
+          activeCue={activeCue}
+          onSeek={(ms) => seekReel(ms)}
+          onChange={onUpdateCaption}
+          onExport={exportCaptions}
+          onClose={() => setEditingCaptions(false)}
+        />
+      )}
+
       {/* Close Button */}
-      <button 
+      <button
         onClick={onClose}
         className="absolute top-6 right-6 z-50 p-3 bg-zinc-900/80 rounded-full text-white hover:bg-zinc-800 border border-zinc-700 transition-all hover:scale-110"
       >
@@ -120,16 +543,16 @@ export const ReelPlayer: React.FC<ReelPlayerProps> = ({ scenes, onClose }) => {
       </button>
 
       {/* Replay / End Screen */}
-      {!isPlaying && currentIndex >= playableScenes.length - 1 && videoRef.current?.ended && (
-        <div className="absolute inset-0 bg-black/80 flex items-center justify-center flex-col gap-6">
+      {finished && (
+        <div className="absolute inset-0 z-40 bg-black/80 flex items-center justify-center flex-col gap-6">
           <h2 className="text-3xl font-bold tracking-widest uppercase text-white">Production Wrapped</h2>
-          <button 
-            onClick={() => { setCurrentIndex(0); setIsPlaying(true); setOpacity(1); }}
+          <button
+            onClick={() => goTo(0, 0, true)}
             className="px-8 py-3 bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg font-bold tracking-wider transition-all shadow-[0_0_20px_rgba(79,70,229,0.5)]"
           >
             Watch Again
           </button>
-          <button 
+          <button
             onClick={onClose}
             className="text-zinc-400 hover:text-white font-mono text-sm"
           >
@@ -139,4 +562,4 @@ export const ReelPlayer: React.FC<ReelPlayerProps> = ({ scenes, onClose }) => {
       )}
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,164 @@
+import React from 'react';
+import { ScriptScene, SceneStatus, StoryboardDecision } from '../types';
+import { formatUsd } from '../services/costs';
+
+interface StoryboardGridProps {
+  scenes: ScriptScene[];
+  isProcessing: boolean;
+  canShoot: boolean;
+  approvedCount: number;
+  approvedEstimate: number; // Projected spend of shooting the approved frames
+  onUpdateScene: (id: number, data: Partial<ScriptScene>) => void;
+  onReroll: (id: number) => void;
+  onShoot: () => void;
+  onClose: () => void;
+}
+
+const DECISION_STYLES: Record<StoryboardDecision, string> = {
+  [StoryboardDecision.PENDING]: 'bg-zinc-800 text-zinc-400',
+  [StoryboardDecision.APPROVED]: 'bg-green-900 text-green-300',
+  [StoryboardDecision.REJECTED]: 'bg-red-900 text-red-300'
+};
+
+export const StoryboardGrid: React.FC<StoryboardGridProps> = ({
+  scenes,
+  isProcessing,
+  canShoot,
+  approvedCount,
+  approvedEstimate,
+  onUpdateScene,
+  onReroll,
+  onShoot,
+  onClose
+}) => {
+  const pending = scenes.filter(s => s.status === SceneStatus.STORYBOARD && s.storyboardDecision === StoryboardDecision.PENDING);
+
+  const approveAll = () => {
+    pending.forEach(s => onUpdateScene(s.id, { storyboardDecision: StoryboardDecision.APPROVED }));
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/80 flex items-center justify-center animate-in fade-in duration-300" onClick={onClose}>
+      <div
+        className="w-full max-w-6xl max-h-[90vh] flex flex-col bg-zinc-900 border border-zinc-800 rounded-xl shadow-2xl overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-zinc-800 flex justify-between items-center">
+          <div>
+            <h2 className="text-sm font-bold uppercase tracking-wider text-zinc-400">Storyboard</h2>
+            <p className="text-[10px] font-mono text-zinc-600 mt-1">
+              Only approved frames are sent to Veo. Reject a frame, edit its prompt and reroll it.
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={approveAll}
+              disabled={isProcessing || pending.length === 0}
+              className="text-xs text-zinc-400 hover:text-white border border-zinc-700 px-3 py-1.5 rounded transition-colors disabled:opacity-30 disabled:hover:text-zinc-400"
+            >
+              Approve all pending
+            </button>
+            <button
+              onClick={onShoot}
+              disabled={isProcessing || !canShoot}
+              className="text-xs bg-indigo-600 hover:bg-indigo-500 text-white px-3 py-1.5 rounded transition-colors disabled:opacity-30 disabled:hover:bg-indigo-600"
+            >
+              Shoot {approvedCount} approved (≈ {formatUsd(approvedEstimate)})
+            </button>
+            <button onClick={onClose} className="ml-2 text-zinc-500 hover:text-white">
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 grid grid-cols-3 gap-4">
+          {scenes.map(scene => {
+            const isBusy = [SceneStatus.ANALYZING, SceneStatus.PREPARING_ASSETS, SceneStatus.GENERATING].includes(scene.status);
+            const isShot = scene.status === SceneStatus.COMPLETED;
+            const decision = scene.storyboardDecision;
+
+            return (
+              <div key={scene.id} className="flex flex-col rounded-lg border border-zinc-800 bg-zinc-950 overflow-hidden">
+                <div className="aspect-video bg-zinc-900 relative flex items-center justify-center">
+                  {scene.imageBase64 ? (
+                    <img
+                      src={`data:image/png;base64,${scene.imageBase64}`}
+                      alt={`Scene ${scene.id} start frame`}
+                      className="w-full h-full object-cover"
+                    />
+                  ) : (
+                    <span className="text-[10px] font-mono text-zinc-600 px-4 text-center">
+                      {isBusy ? 'Stage Hand: Preparing frame...' :
+                       scene.isExtension ? 'Extends previous shot (no start frame)' :
+                       scene.matchesLastFrame ? "Starts from the previous shot's last frame" :
+                       'No frame yet'}
+                    </span>
+                  )}
+                  {isBusy && (
+                    <div className="absolute inset-0 bg-black/50 flex items-center justify-center">
+                      <div className="w-6 h-6 border-2 border-pink-500 border-t-transparent rounded-full animate-spin"></div>
+                    </div>
+                  )}
+                </div>
+
+                <div className="p-3 flex-1 flex flex-col gap-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <h3 className="text-xs font-bold text-zinc-200 truncate">Scene {scene.id}: {scene.title}</h3>
+                    <span className={`text-[10px] uppercase px-2 py-0.5 rounded font-bold shrink-0 ${
+                      isShot ? 'bg-indigo-900 text-indigo-300' : decision ? DECISION_STYLES[decision] : 'bg-zinc-800 text-zinc-500'
+                    }`}>
+                      {isShot ? 'Shot' : decision ?? scene.status}
+                    </span>
+                  </div>
+
+                  {scene.feedback && (
+                    <p className="text-[10px] font-mono text-zinc-500">
+                      <span className="text-blue-400">QA:</span> {scene.feedback}
+                    </p>
+                  )}
+
+                  {scene.error && (
+                    <p className="text-[10px] font-mono text-red-400">{scene.error} Edit the prompt if needed, then reroll.</p>
+                  )}
+
+                  <textarea
+                    className="flex-1 min-h-[4rem] w-full bg-zinc-900 border border-zinc-800 rounded px-2 py-1 text-[10px] font-mono text-zinc-300 focus:outline-none focus:border-indigo-500 resize-none"
+                    value={scene.visualPrompt}
+                    onChange={(e) => onUpdateScene(scene.id, { visualPrompt: e.target.value })}
+                    disabled={isProcessing || isShot}
+                  />
+
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => onUpdateScene(scene.id, { storyboardDecision: StoryboardDecision.APPROVED })}
+                      disabled={isProcessing || isShot || !decision}
+                      className="flex-1 text-[10px] uppercase tracking-wider font-mono text-zinc-400 hover:text-green-400 px-2 py-1 border border-zinc-800 rounded disabled:opacity-30"
+                    >
+                      Approve
+                    </button>
+                    <button
+                      onClick={() => onUpdateScene(scene.id, { storyboardDecision: StoryboardDecision.REJECTED })}
+                      disabled={isProcessing || isShot || !decision}
+                      className="flex-1 text-[10px] uppercase tracking-wider font-mono text-zinc-400 hover:text-red-400 px-2 py-1 border border-zinc-800 rounded disabled:opacity-30"
+                    >
+                      Reject
+                    </button>
+                    <button
+                      onClick={() => onReroll(scene.id)}
+                      disabled={isProcessing || isShot}
+                      className="flex-1 text-[10px] uppercase tracking-wider font-mono text-zinc-400 hover:text-indigo-400 px-2 py-1 border border-zinc-800 rounded disabled:opacity-30"
+                    >
+                      Reroll
+                    </button>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
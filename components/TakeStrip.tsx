@@ -0,0 +1,59 @@
+import React from 'react';
+import { Take } from '../types';
+
+interface TakeStripProps {
+  takes: Take[];
+  selectedTakeId?: string;
+  disabled: boolean;
+  onCircle: (takeId: string) => void;
+}
+
+/**
+ * Gallery row with every take of a scene side by side. The circled take is the one the
+ * scene plays everywhere; any other take can be circled instead.
+ */
+export const TakeStrip: React.FC<TakeStripProps> = ({ takes, selectedTakeId, disabled, onCircle }) => (
+  <div className="px-4 py-3 border-t border-zinc-800">
+    <span className="text-[10px] uppercase tracking-wider text-zinc-500 font-mono">Takes</span>
+    <div className="flex gap-3 mt-2 overflow-x-auto pb-1">
+      {takes.map(take => {
+        const circled = take.id === selectedTakeId;
+        return (
+          <div
+            key={take.id}
+            className={`w-44 shrink-0 rounded-lg border overflow-hidden ${circled ? 'border-indigo-500' : 'border-zinc-800'}`}
+          >
+            <video src={take.videoUri} muted loop playsInline className="w-full aspect-video object-cover bg-black"
+              onMouseEnter={(e) => e.currentTarget.play().catch(() => {})}
+              onMouseLeave={(e) => e.currentTarget.pause()}
+            />
+            <div className="p-2 space-y-1">
+              <div className="flex items-center gap-2">
+                <span className="text-[10px] font-bold text-zinc-300">
+                  {circled && <span className="text-indigo-400">● </span>}Take {take.number}
+                </span>
+                {circled ? (
+                  <span className="ml-auto text-[10px] uppercase tracking-wider text-indigo-400">Circled</span>
+                ) : (
+                  <button
+                    onClick={() => onCircle(take.id)}
+                    disabled={disabled}
+                    className="ml-auto text-[10px] uppercase tracking-wider text-zinc-500 hover:text-indigo-400 disabled:opacity-30"
+                  >
+                    Circle take
+                  </button>
+                )}
+              </div>
+              <p className="text-[10px] font-mono text-zinc-600 truncate" title={take.prompt}>
+                {take.model} · {take.config.resolution} · {take.config.aspectRatio}
+                {take.seed !== undefined && ` · seed ${take.seed}`}
+                {take.isExtension && ' · extension'}
+                {take.matchesLastFrame && ' · matched frame'}
+              </p>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  </div>
+);
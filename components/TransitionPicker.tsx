@@ -0,0 +1,67 @@
+import React from 'react';
+import { SceneTransition, TransitionType } from '../types';
+import { TRANSITION_LABELS, DEFAULT_TRANSITION_MS, isCut } from '../services/transitions';
+
+interface TransitionPickerProps {
+  transition: SceneTransition;
+  isDefault: boolean; // Derived from the scene rather than picked
+  onChange: (transition: SceneTransition) => void;
+}
+
+/**
+ * Gallery divider between two scenes: shows the cut into the lower scene and lets the user
+ * change its type and duration.
+ */
+export const TransitionPicker: React.FC<TransitionPickerProps> = ({ transition, isDefault, onChange }) => {
+  const cut = isCut(transition);
+
+  return (
+    <div className="flex flex-col items-center justify-center py-4 relative">
+      <div className="absolute inset-y-0 left-1/2 w-px bg-zinc-800 -z-10"></div>
+
+      <div className={`flex items-center gap-2 bg-zinc-950 px-3 py-1 rounded-full border border-zinc-800 ${cut ? 'text-purple-400' : 'text-blue-400'}`}>
+        {cut ? (
+          // DIRECT CUT VISUAL
+          <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
+          </svg>
+        ) : (
+          // TIMED TRANSITION VISUAL
+          <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+          </svg>
+        )}
+        <select
+          value={transition.type}
+          onChange={(e) => {
+            const type = e.target.value as TransitionType;
+            onChange({ type, durationMs: DEFAULT_TRANSITION_MS[type] });
+          }}
+          title={isDefault ? 'Default for this cut. Pick a transition to override it.' : undefined}
+          className={`bg-transparent text-[10px] font-bold tracking-widest uppercase focus:outline-none cursor-pointer ${isDefault ? 'opacity-60' : ''}`}
+        >
+          {Object.values(TransitionType).map(type => (
+            <option key={type} value={type} className="bg-zinc-900">{TRANSITION_LABELS[type]}</option>
+          ))}
+        </select>
+        {!cut && (
+          <label className="flex items-center gap-1 text-[10px] font-mono text-zinc-500">
+            <input
+              type="number"
+              min={100}
+              max={5000}
+              step={100}
+              value={transition.durationMs}
+              onChange={(e) => {
+                const durationMs = Number(e.target.value);
+                if (durationMs > 0) onChange({ ...transition, durationMs });
+              }}
+              className="w-12 bg-transparent text-right text-zinc-300 focus:outline-none"
+            />
+            ms
+          </label>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,44 @@
+import { BibleEntry, ScriptScene } from "../types";
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole-word, case-insensitive match of any of the entry's names
+const mentions = (entry: BibleEntry, text: string) =>
+  [entry.name, ...entry.aliases]
+    .filter(name => name.trim())
+    .some(name => new RegExp(`\\b${escapeRegExp(name.trim())}\\b`, 'i').test(text));
+
+/**
+ * Finds the bible entries a scene references by name or alias.
+ */
+export const findSceneEntries = (bible: BibleEntry[], scene: ScriptScene): BibleEntry[] => {
+  const text = [
+    scene.title,
+    scene.visualPrompt,
+    scene.narrativeContext,
+    ...(scene.dialogue || []).map(d => d.character)
+  ].join('\n');
+
+  return bible.filter(entry => mentions(entry, text));
+};
+
+/**
+ * Appends the canonical descriptions of the referenced entries to a generation prompt.
+ */
+export const withBibleNotes = (prompt: string, entries: BibleEntry[]): string => {
+  const notes = entries
+    .filter(entry => entry.description.trim())
+    .map(entry => `${entry.name}: ${entry.description.trim()}`);
+
+  if (notes.length === 0) return prompt;
+  return `${prompt}\n\nKeep these recurring elements consistent with their canonical look:\n${notes.map(n => `- ${n}`).join('\n')}`;
+};
+
+/**
+ * Adds newly extracted entries to the bible. Existing entries (possibly edited by the
+ * user) win over extracted ones with the same name.
+ */
+export const mergeBibleEntries = (existing: BibleEntry[], extracted: BibleEntry[]): BibleEntry[] => {
+  const known = new Set(existing.flatMap(e => [e.name, ...e.aliases]).map(n => n.toLowerCase()));
+  return [...existing, ...extracted.filter(e => !known.has(e.name.toLowerCase()))];
+};
@@ -0,0 +1,92 @@
+import { ScriptScene, SceneStatus } from "../types";
+
+// Sentence ends, for splitting a prompt near its middle
+const SENTENCE_END = /[.!?]+\s+/g;
+
+const nextId = (scenes: ScriptScene[]) => Math.max(0, ...scenes.map(s => s.id)) + 1;
+
+export const blankScene = (scenes: ScriptScene[]): ScriptScene => ({
+  id: nextId(scenes),
+  title: 'New Scene',
+  visualPrompt: '',
+  narrativeContext: '',
+  status: SceneStatus.IDLE
+});
+
+// Where to split `text`: the given caret if it's inside the text, else the sentence break nearest the middle
+const splitPoint = (text: string, at?: number): number => {
+  if (at !== undefined && at > 0 && at < text.length) return at;
+  const breaks = [...text.matchAll(SENTENCE_END)].map(m => m.index! + m[0].length).filter(i => i < text.length);
+  if (breaks.length === 0) return text.length;
+  return breaks.reduce((best, i) => Math.abs(i - text.length / 2) < Math.abs(best - text.length / 2) ? i : best);
+};
+
+/**
+ * Splits a scene in two at `at` in its visual prompt (or the middle sentence break). Both halves
+ * keep the narrative context; captions are shared out in order. The second half gets a new id.
+ */
+export const splitScene = (scenes: ScriptScene[], id: number, at?: number): ScriptScene[] => {
+  const index = scenes.findIndex(s => s.id === id);
+  if (index === -1) return scenes;
+  const scene = scenes[index];
+
+  const cut = splitPoint(scene.visualPrompt, at);
+  const captions = scene.captions || [];
+  const half = Math.ceil(captions.length / 2);
+
+  const first: ScriptScene = {
+    ...scene,
+    visualPrompt: scene.visualPrompt.slice(0, cut).trim(),
+    captions: half > 0 ? captions.slice(0, half) : undefined
+  };
+  const second: ScriptScene = {
+    id: nextId(scenes),
+    title: `${scene.title} (cont.)`,
+    visualPrompt: scene.visualPrompt.slice(cut).trim(),
+    narrativeContext: scene.narrativeContext,
+    captions: captions.length > half ? captions.slice(half) : undefined,
+    generationOverrides: scene.generationOverrides,
+    status: SceneStatus.IDLE
+  };
+
+  return [...scenes.slice(0, index), first, second, ...scenes.slice(index + 1)];
+};
+
+const joinText = (a: string, b: string) => [a.trim(), b.trim()].filter(Boolean).join(' ');
+
+/**
+ * Merges a scene with the one after it. The first scene's title, image, transition and settings win;
+ * prompts, context, dialogue and captions are joined in order.
+ */
+export const mergeWithNext = (scenes: ScriptScene[], id: number): ScriptScene[] => {
+  const index = scenes.findIndex(s => s.id === id);
+  if (index === -1 || index === scenes.length - 1) return scenes;
+  const [scene, next] = [scenes[index], scenes[index + 1]];
+
+  const dialogue = [...(scene.dialogue || []), ...(next.dialogue || [])];
+  const captions = [...(scene.captions || []), ...(next.captions || [])];
+  const merged: ScriptScene = {
+    ...scene,
+    visualPrompt: joinText(scene.visualPrompt, next.visualPrompt),
+    narrativeContext: joinText(scene.narrativeContext, next.narrativeContext),
+    dialogue: dialogue.length > 0 ? dialogue : undefined,
+    captions: captions.length > 0 ? captions : undefined,
+    imageUrl: scene.imageUrl ?? next.imageUrl
+  };
+
+  return [...scenes.slice(0, index), merged, ...scenes.slice(index + 2)];
+};
+
+export const moveScene = (scenes: ScriptScene[], from: number, to: number): ScriptScene[] => {
+  if (from === to || from < 0 || to < 0 || from >= scenes.length || to >= scenes.length) return scenes;
+  const reordered = [...scenes];
+  const [moved] = reordered.splice(from, 1);
+  reordered.splice(to, 0, moved);
+  return reordered;
+};
+
+/**
+ * Numbers the scenes 1..n in list order, as the rest of the app expects.
+ */
+export const renumberScenes = (scenes: ScriptScene[]): ScriptScene[] =>
+  scenes.map((scene, i) => ({ ...scene, id: i + 1 }));
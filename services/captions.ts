@@ -0,0 +1,89 @@
+import { ScriptScene } from "../types";
+
+// Captions come up a beat after the cut and clear a beat before the next one
+const SCENE_PADDING_MS = 250;
+
+export interface CaptionCue {
+  sceneId: number;
+  lineIndex: number; // Index into the scene's `captions`
+  startMs: number; // From the start of the reel
+  endMs: number;
+  speaker?: string;
+  text: string;
+}
+
+const oneLine = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+/**
+ * CAPTION TIMELINE: Lays each scene's caption lines over its clip, back to back as the reel
+ * plays them. A scene's lines share its clip, each shown for a time proportional to its length.
+ * `durationOf` returns a clip's real length in milliseconds.
+ */
+export const buildCaptionCues = (scenes: ScriptScene[], durationOf: (scene: ScriptScene) => number): CaptionCue[] => {
+  const cues: CaptionCue[] = [];
+  let sceneStart = 0;
+
+  for (const scene of scenes) {
+    const durationMs = durationOf(scene);
+    const lines = (scene.captions || [])
+      .map((line, lineIndex) => ({ ...line, text: oneLine(line.text), lineIndex }))
+      .filter(line => line.text);
+
+    if (lines.length > 0) {
+      const padding = Math.min(SCENE_PADDING_MS, durationMs / 4);
+      const available = durationMs - padding * 2;
+      const totalChars = lines.reduce((sum, line) => sum + line.text.length, 0);
+      let cursor = sceneStart + padding;
+
+      for (const line of lines) {
+        const length = (available * line.text.length) / totalChars;
+        cues.push({
+          sceneId: scene.id,
+          lineIndex: line.lineIndex,
+          startMs: Math.round(cursor),
+          endMs: Math.round(cursor + length),
+          speaker: line.speaker?.trim() || undefined,
+          text: line.text
+        });
+        cursor += length;
+      }
+    }
+    sceneStart += durationMs;
+  }
+
+  return cues;
+};
+
+export const cueAt = (cues: CaptionCue[], ms: number): CaptionCue | undefined =>
+  cues.find(cue => cue.startMs <= ms && ms < cue.endMs);
+
+const timestamp = (ms: number, separator: '.' | ',') => {
+  const hours = Math.floor(ms / 3600000);
+  const minutes = Math.floor(ms / 60000) % 60;
+  const seconds = Math.floor(ms / 1000) % 60;
+  return `${[hours, minutes, seconds].map(n => String(n).padStart(2, '0')).join(':')}${separator}${String(ms % 1000).padStart(3, '0')}`;
+};
+
+const escapeVtt = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/**
+ * WEBVTT EXPORT: Speakers are tagged with voice spans (`<v Mike>`) so players can style them.
+ */
+export const toWebVtt = (cues: CaptionCue[]): string => {
+  const blocks = cues.map((cue, i) => [
+    String(i + 1),
+    `${timestamp(cue.startMs, '.')} --> ${timestamp(cue.endMs, '.')}`,
+    `${cue.speaker ? `<v ${escapeVtt(cue.speaker)}>` : ''}${escapeVtt(cue.text)}`
+  ].join('\n'));
+  return `${['WEBVTT', ...blocks].join('\n\n')}\n`;
+};
+
+/**
+ * SRT EXPORT: SRT has no speaker markup, so speakers are written as an upper-case prefix.
+ */
+export const toSrt = (cues: CaptionCue[]): string =>
+  cues.map((cue, i) => [
+    String(i + 1),
+    `${timestamp(cue.startMs, ',')} --> ${timestamp(cue.endMs, ',')}`,
+    `${cue.speaker ? `${cue.speaker.toUpperCase()}: ` : ''}${cue.text}`
+  ].join('\n')).join('\n\n') + '\n';
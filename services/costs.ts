@@ -0,0 +1,84 @@
+import { ProviderModels, ScriptScene, SceneStatus, SpendEntry } from "../types";
+
+interface ModelRate {
+  unit: 'call' | 'image' | 'second';
+  usd: number;
+}
+
+// Published list prices (USD). Text calls are token-billed; a flat per-call figure covers
+// the short prompts this app sends. Models missing here (e.g. the offline mock) are free.
+export const MODEL_RATES: Record<string, ModelRate> = {
+  'gemini-2.5-flash': { unit: 'call', usd: 0.002 },
+  'gemini-2.5-flash-image': { unit: 'image', usd: 0.039 },
+  'veo-3.1-fast-generate-preview': { unit: 'second', usd: 0.15 },
+  'veo-3.1-generate-preview': { unit: 'second', usd: 0.40 }
+};
+
+// Veo 3.1 renders 8 second shots; an extension adds 7 seconds to the source clip
+export const FRESH_SHOT_SECONDS = 8;
+export const EXTENSION_SECONDS = 7;
+
+export const priceOf = (model: string, units: number): number => (MODEL_RATES[model]?.usd ?? 0) * units;
+
+export interface SceneEstimate {
+  sceneId: number;
+  continuity: number;
+  stageHand: number;
+  video: number;
+  total: number;
+  assumesWorstCase: boolean; // QA hasn't decided fresh shot vs. extension yet
+}
+
+export interface ProductionEstimate {
+  scenes: SceneEstimate[];
+  total: number;
+}
+
+/**
+ * COST ESTIMATOR: Projects what producing a scene will cost with the given models.
+ * Uses the scene's extension decision when Continuity QA has made one, otherwise the
+ * more expensive of the two paths. Completed scenes and ready start frames cost nothing more;
+ * a prompt edited since its pre-flight safety check is checked again.
+ */
+export const estimateSceneCost = (models: ProviderModels, scene: ScriptScene, isFirst: boolean): SceneEstimate => {
+  if (scene.status === SceneStatus.COMPLETED) {
+    return { sceneId: scene.id, continuity: 0, stageHand: 0, video: 0, total: 0, assumesWorstCase: false };
+  }
+
+  const decided = scene.feedback !== undefined || isFirst;
+  const freshStageHand = scene.imageUrl || scene.imageBase64 ? 0 : priceOf(models.image, 1);
+  const fresh = freshStageHand + priceOf(models.video, FRESH_SHOT_SECONDS);
+  const extension = priceOf(models.videoExtension, EXTENSION_SECONDS);
+
+  const willExtend = decided ? Boolean(scene.isExtension) && !isFirst : extension > fresh;
+  // Visual QA compares a fresh shot's start frame with the end of the previous clip
+  const matched = decided && Boolean(scene.matchesLastFrame);
+  const visualQa = !willExtend && !matched && !isFirst && !scene.continuityFindings ? priceOf(models.text, 1) : 0;
+  const preflight = scene.promptLint?.prompt === scene.visualPrompt ? 0 : priceOf(models.text, 1);
+  const continuity = (decided ? 0 : priceOf(models.text, 1)) + visualQa + preflight;
+  // A matched start frame is decoded locally (re-styling it is not counted)
+  const stageHand = willExtend || matched ? 0 : freshStageHand;
+  const video = willExtend ? extension : priceOf(models.video, FRESH_SHOT_SECONDS);
+
+  return {
+    sceneId: scene.id,
+    continuity,
+    stageHand,
+    video,
+    total: continuity + stageHand + video,
+    assumesWorstCase: !decided
+  };
+};
+
+export const estimateProductionCost = (models: ProviderModels, scenes: ScriptScene[]): ProductionEstimate => {
+  const estimates = scenes.map((scene, i) => estimateSceneCost(models, scene, i === 0));
+  return { scenes: estimates, total: estimates.reduce((sum, e) => sum + e.total, 0) };
+};
+
+// Actual spend from the ledger, for one scene or (sceneId omitted) the whole production
+export const sumSpend = (entries: SpendEntry[], sceneId?: number): number =>
+  entries
+    .filter(e => sceneId === undefined || e.sceneId === sceneId)
+    .reduce((sum, e) => sum + e.usd, 0);
+
+export const formatUsd = (usd: number): string => `$${usd.toFixed(usd > 0 && usd < 0.1 ? 3 : 2)}`;
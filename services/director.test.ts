@@ -0,0 +1,430 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  AgentLog,
+  ContinuityMode,
+  GenerationErrorKind,
+  GenerationProvider,
+  ParseMode,
+  ProjectMeta,
+  PromptRiskCategory,
+  ProviderId,
+  SceneStatus,
+  ScriptScene,
+  VideoResult
+} from '../types';
+import { createDirector, DirectorEvent, DirectorOptions } from './director';
+import { GenerationError } from './operations';
+
+// Priced like Gemini, so budget checks apply
+const MODELS = {
+  text: 'gemini-2.5-flash',
+  image: 'gemini-2.5-flash-image',
+  video: 'veo-3.1-fast-generate-preview',
+  videoExtension: 'veo-3.1-generate-preview'
+};
+
+const scene = (id: number, fields: Partial<ScriptScene> = {}): ScriptScene => ({
+  id,
+  title: `Scene ${id}`,
+  visualPrompt: `Shot ${id}`,
+  narrativeContext: `Context ${id}`,
+  status: SceneStatus.IDLE,
+  ...fields
+});
+
+// Offline stand-in for Gemini: every call succeeds at once unless a test overrides it
+const fakeProvider = (overrides: Partial<GenerationProvider> = {}): GenerationProvider => ({
+  id: ProviderId.MOCK,
+  label: 'Fake',
+  models: MODELS,
+  isReady: async () => true,
+  parseScript: async () => [scene(1), scene(2)],
+  checkContinuity: async () => ({ mode: ContinuityMode.FRESH_SHOT, reasoning: 'New shot.' }),
+  inspectContinuity: async () => [],
+  extractBible: async () => [],
+  lintPrompt: vi.fn(async (visualPrompt: string) => ({ prompt: visualPrompt, risks: [] })),
+  rewritePrompt: vi.fn(async (visualPrompt: string) => `Safe ${visualPrompt}`),
+  generateStageHandImage: vi.fn(async (prompt: string) => `frame of ${prompt}`),
+  fetchImageAsBase64: async (url: string) => `image at ${url}`,
+  generateVideo: vi.fn(async (s: ScriptScene) => ({ uri: `fake://scene-${s.id}.mp4`, handle: { sceneId: s.id } })),
+  ...overrides
+});
+
+// Extensions are only possible at 720p
+const production: ProjectMeta = {
+  id: 'production-1',
+  name: 'Test',
+  scriptText: 'A test script.',
+  providerId: ProviderId.MOCK,
+  generationConfig: { resolution: '720p', aspectRatio: '16:9' },
+  createdAt: new Date()
+};
+
+// Runs a Director against `provider`, folding its events into a scene list the way the UI does
+const setup = (provider: GenerationProvider, options: Partial<DirectorOptions> = {}, initial: ScriptScene[] = []) => {
+  const events: DirectorEvent[] = [];
+  let scenes = initial;
+
+  const director = createDirector({
+    provider,
+    production,
+    settings: { concurrency: 2, storyboardMode: false, autoFixContinuity: false, restyleMatchedFrames: false, rewriteBlockedPrompts: false },
+    lastFrame: async () => 'last frame',
+    onEvent: (event) => {
+      events.push(event);
+      if (event.type === 'scenes') scenes = event.scenes;
+      if (event.type === 'scene') scenes = scenes.map(s => s.id === event.sceneId ? { ...s, ...event.data } : s);
+    },
+    ...options
+  });
+
+  return {
+    director,
+    events,
+    scene: (id: number) => scenes.find(s => s.id === id)!,
+    logs: () => events.flatMap(e => e.type === 'log' && !e.entry.span ? [e.entry] : [] as AgentLog[]),
+    statuses: (id: number) => events.flatMap(e => e.type === 'scene' && e.sceneId === id && e.data.status ? [e.data.status] : [])
+  };
+};
+
+const videoCall = (provider: GenerationProvider, sceneId: number) =>
+  vi.mocked(provider.generateVideo).mock.calls.find(([s]) => s.id === sceneId);
+
+describe('Director', () => {
+  it('takes a fresh shot through QA, Stage Hand and the Generator', async () => {
+    const provider = fakeProvider();
+    const { director, scene, statuses } = setup(provider);
+
+    expect(await director.direct(ParseMode.FREEFORM)).toBe('completed');
+
+    expect(statuses(1)).toEqual([
+      SceneStatus.ANALYZING,
+      SceneStatus.QUEUED,
+      SceneStatus.PREPARING_ASSETS,
+      SceneStatus.GENERATING,
+      SceneStatus.COMPLETED
+    ]);
+    expect(videoCall(provider, 1)?.[3]).toBe('frame of Shot 1');
+    expect(scene(1)).toMatchObject({ videoUri: 'fake://scene-1.mp4', takes: [expect.objectContaining({ number: 1 })] });
+  });
+
+  describe('extensions', () => {
+    it('extends the previous clip from its handle, without a start frame', async () => {
+      const provider = fakeProvider({
+        checkContinuity: async (current, previous) => previous
+          ? { mode: ContinuityMode.EXTEND, reasoning: 'Same shot.' }
+          : { mode: ContinuityMode.FRESH_SHOT, reasoning: 'First shot.' }
+      });
+      const { director, scene } = setup(provider);
+
+      await director.direct(ParseMode.FREEFORM);
+
+      const [, handle, shouldExtend, imageBase64] = videoCall(provider, 2)!;
+      expect(handle).toEqual({ sceneId: 1 });
+      expect(shouldExtend).toBe(true);
+      expect(imageBase64).toBeUndefined();
+      expect(provider.generateStageHandImage).toHaveBeenCalledTimes(1);
+      expect(scene(2)).toMatchObject({ isExtension: true, takes: [expect.objectContaining({ model: MODELS.videoExtension })] });
+    });
+
+    it('shoots fresh when the previous scene has no handle to extend', async () => {
+      const provider = fakeProvider({
+        checkContinuity: async () => ({ mode: ContinuityMode.EXTEND, reasoning: 'Same shot.' })
+      });
+      const snapshot = [scene(1, { status: SceneStatus.COMPLETED, videoUri: 'fake://old.mp4' }), scene(2, { isExtension: true })];
+      const { director, scene: current } = setup(provider, {}, snapshot);
+
+      expect(await director.regenerate(snapshot, 2)).toBe('completed');
+
+      const [, handle, shouldExtend] = videoCall(provider, 2)!;
+      expect(handle).toBeUndefined();
+      expect(shouldExtend).toBe(false);
+      expect(current(2).takes?.[0].model).toBe(MODELS.video);
+    });
+
+    it('extends at 720p under a 1080p production and reports it, shooting fresh scenes at 1080p', async () => {
+      const provider = fakeProvider({
+        checkContinuity: async (current, previous) => previous
+          ? { mode: ContinuityMode.EXTEND, reasoning: 'Same shot.' }
+          : { mode: ContinuityMode.FRESH_SHOT, reasoning: 'First shot.' }
+      });
+      const { director, scene, logs } = setup(provider, { production: { ...production, generationConfig: { resolution: '1080p', aspectRatio: '16:9' } } });
+
+      await director.direct(ParseMode.FREEFORM);
+
+      expect(videoCall(provider, 1)?.[4]).toEqual({ resolution: '1080p', aspectRatio: '16:9' });
+      expect(videoCall(provider, 2)?.[4]).toEqual({ resolution: '720p', aspectRatio: '16:9' });
+      expect(scene(1).configConflicts).toBeUndefined();
+      expect(scene(2)).toMatchObject({
+        isExtension: true,
+        configConflicts: ["Extensions only support 720p; this scene renders at 720p instead of the production's 1080p."],
+        renderedConfig: { resolution: '720p' }
+      });
+      expect(logs().some(log => log.status === 'warning' && log.message.startsWith('Scene 2: Extensions only support 720p'))).toBe(true);
+    });
+
+    it('falls back to the last frame when a scene forces a resolution extensions cannot use', async () => {
+      const provider = fakeProvider({
+        checkContinuity: async (current, previous) => previous
+          ? { mode: ContinuityMode.EXTEND, reasoning: 'Same shot.' }
+          : { mode: ContinuityMode.FRESH_SHOT, reasoning: 'First shot.' },
+        parseScript: async () => [scene(1), scene(2, { generationOverrides: { resolution: '1080p' } })]
+      });
+      const { director, scene: current } = setup(provider);
+
+      await director.direct(ParseMode.FREEFORM);
+
+      expect(current(2)).toMatchObject({ isExtension: false, matchesLastFrame: true, configConflicts: [expect.stringContaining('720p')] });
+      expect(videoCall(provider, 2)?.[3]).toBe('last frame');
+    });
+  });
+
+  it('falls back to text-only generation when Stage Hand fails', async () => {
+    const provider = fakeProvider({
+      generateStageHandImage: vi.fn(async () => { throw new Error('image model down'); })
+    });
+    const { director, scene, logs } = setup(provider);
+
+    expect(await director.direct(ParseMode.FREEFORM)).toBe('completed');
+
+    expect(videoCall(provider, 1)?.[3]).toBeUndefined();
+    expect(scene(1).status).toBe(SceneStatus.COMPLETED);
+    expect(logs().some(log => log.status === 'warning' && log.message.includes('Proceeding with text-only generation'))).toBe(true);
+  });
+
+  describe('failures', () => {
+    it('blocks a scene rejected by a safety filter and keeps shooting independent scenes', async () => {
+      const provider = fakeProvider({
+        generateVideo: vi.fn(async (s: ScriptScene) => {
+          if (s.id === 1) throw new GenerationError('Veo filtered the clip.', GenerationErrorKind.SAFETY);
+          return { uri: `fake://scene-${s.id}.mp4`, handle: { sceneId: s.id } };
+        })
+      });
+      const { director, scene, logs } = setup(provider);
+
+      expect(await director.direct(ParseMode.FREEFORM)).toBe('failed');
+
+      expect(scene(1)).toMatchObject({ status: SceneStatus.BLOCKED, failureKind: GenerationErrorKind.SAFETY, error: 'Veo filtered the clip.' });
+      expect(scene(2).status).toBe(SceneStatus.COMPLETED);
+      expect(logs().at(-1)).toMatchObject({ status: 'error', message: expect.stringContaining('1 scene(s) failed (1)') });
+    });
+
+    it('does not shoot the rest of a chain whose first scene failed', async () => {
+      const provider = fakeProvider({
+        checkContinuity: async (current, previous) => previous
+          ? { mode: ContinuityMode.EXTEND, reasoning: 'Same shot.' }
+          : { mode: ContinuityMode.FRESH_SHOT, reasoning: 'First shot.' },
+        generateVideo: vi.fn(async () => { throw new Error('Internal error'); })
+      });
+      const { director, scene, logs } = setup(provider);
+
+      expect(await director.direct(ParseMode.FREEFORM)).toBe('failed');
+
+      expect(provider.generateVideo).toHaveBeenCalledTimes(1);
+      expect(scene(1)).toMatchObject({ status: SceneStatus.ERROR, failureKind: GenerationErrorKind.TRANSIENT });
+      expect(scene(2).status).toBe(SceneStatus.IDLE);
+      expect(logs().some(log => log.message === 'Scene 2: Not shot, the chain it extends failed at Scene 1.')).toBe(true);
+    });
+
+    it('starts no further shots once the quota is reached', async () => {
+      const provider = fakeProvider({
+        generateVideo: vi.fn(async () => { throw new GenerationError('Quota exceeded.', GenerationErrorKind.QUOTA); })
+      });
+      const { director, scene } = setup(provider, {
+        settings: { concurrency: 1, storyboardMode: false, autoFixContinuity: false, restyleMatchedFrames: false, rewriteBlockedPrompts: false }
+      });
+
+      expect(await director.direct(ParseMode.FREEFORM)).toBe('failed');
+
+      expect(provider.generateVideo).toHaveBeenCalledTimes(1);
+      expect(scene(2).status).toBe(SceneStatus.IDLE);
+    });
+
+    it('storyboards the other scenes when one fails, so it can be rerolled', async () => {
+      const provider = fakeProvider({
+        checkContinuity: async (current) => {
+          if (current.id === 1) throw new Error('Internal error');
+          return { mode: ContinuityMode.FRESH_SHOT, reasoning: 'New shot.' };
+        }
+      });
+      const { director, events, scene, logs } = setup(provider, {
+        settings: { concurrency: 1, storyboardMode: true, autoFixContinuity: false, restyleMatchedFrames: false, rewriteBlockedPrompts: false }
+      });
+
+      expect(await director.direct(ParseMode.FREEFORM)).toBe('failed');
+
+      expect(scene(1)).toMatchObject({ status: SceneStatus.ERROR, error: 'Internal error' });
+      expect(scene(2)).toMatchObject({ status: SceneStatus.STORYBOARD, imageBase64: 'frame of Shot 2' });
+      expect(events.some(e => e.type === 'storyboard')).toBe(true);
+      expect(logs().some(log => log.message.includes('1 scene(s) failed; reroll them from the storyboard.'))).toBe(true);
+    });
+
+    it('fails the run when the script cannot be parsed', async () => {
+      const { director, logs } = setup(fakeProvider({ parseScript: async () => { throw new Error('Bad JSON'); } }));
+
+      expect(await director.direct(ParseMode.FREEFORM)).toBe('failed');
+      expect(logs().at(-1)).toMatchObject({ status: 'error', message: 'Critical failure: Bad JSON' });
+    });
+  });
+
+  describe('prompt safety', () => {
+    // Refuses every prompt that hasn't been through rewritePrompt
+    const refusing = () => vi.fn(async (s: ScriptScene) => {
+      if (!s.visualPrompt.startsWith('Safe')) throw new GenerationError('Veo filtered the clip.', GenerationErrorKind.SAFETY);
+      return { uri: `fake://scene-${s.id}.mp4`, handle: { sceneId: s.id } };
+    });
+
+    it('records pre-flight risks on the scene before any video spend, and still shoots it', async () => {
+      const provider = fakeProvider({
+        lintPrompt: vi.fn(async (visualPrompt: string) => visualPrompt === 'Shot 2'
+          ? { prompt: visualPrompt, risks: [{ category: PromptRiskCategory.BRAND, excerpt: 'Shot', reason: 'A brand.' }], suggestedPrompt: 'Take 2' }
+          : { prompt: visualPrompt, risks: [] })
+      });
+      const { director, scene, logs } = setup(provider);
+
+      expect(await director.direct(ParseMode.FREEFORM)).toBe('completed');
+
+      expect(provider.lintPrompt).toHaveBeenCalledTimes(2);
+      expect(scene(2)).toMatchObject({ status: SceneStatus.COMPLETED, promptLint: { prompt: 'Shot 2', suggestedPrompt: 'Take 2' } });
+      expect(logs().some(log => log.status === 'warning' && log.message.includes('Suggested rewrite: "Take 2"'))).toBe(true);
+    });
+
+    it('skips prompts already checked as they are', async () => {
+      const provider = fakeProvider();
+      const snapshot = [scene(1, { promptLint: { prompt: 'Shot 1', risks: [] } }), scene(2, { promptLint: { prompt: 'Old shot 2', risks: [] } })];
+      const { director } = setup(provider, {}, snapshot);
+
+      await director.resume(snapshot);
+
+      expect(provider.lintPrompt).toHaveBeenCalledTimes(1);
+      expect(provider.lintPrompt).toHaveBeenCalledWith('Shot 2', expect.anything());
+    });
+
+    it('blocks a refused scene when auto-rewrite is off', async () => {
+      const provider = fakeProvider({ generateVideo: refusing() });
+      const { director, scene } = setup(provider);
+
+      expect(await director.direct(ParseMode.FREEFORM)).toBe('failed');
+      expect(provider.rewritePrompt).not.toHaveBeenCalled();
+      expect(scene(1).status).toBe(SceneStatus.BLOCKED);
+    });
+
+    it('rewrites a refused prompt and retries the shot once, recording the rewrite', async () => {
+      const provider = fakeProvider({ generateVideo: refusing() });
+      const { director, scene } = setup(provider, {
+        settings: { concurrency: 2, storyboardMode: false, autoFixContinuity: false, restyleMatchedFrames: false, rewriteBlockedPrompts: true }
+      });
+
+      expect(await director.direct(ParseMode.FREEFORM)).toBe('completed');
+
+      expect(provider.generateVideo).toHaveBeenCalledTimes(4);
+      expect(scene(1)).toMatchObject({
+        status: SceneStatus.COMPLETED,
+        visualPrompt: 'Safe Shot 1',
+        promptRewrites: [{ originalPrompt: 'Shot 1', rewrittenPrompt: 'Safe Shot 1', reason: 'Veo filtered the clip.' }],
+        takes: [expect.objectContaining({ prompt: 'Safe Shot 1' })]
+      });
+    });
+
+    it('gives up on a scene whose rewrite is refused too', async () => {
+      const provider = fakeProvider({
+        generateVideo: vi.fn(async () => { throw new GenerationError('Veo filtered the clip.', GenerationErrorKind.SAFETY); })
+      });
+      const { director, scene } = setup(provider, {
+        settings: { concurrency: 1, storyboardMode: false, autoFixContinuity: false, restyleMatchedFrames: false, rewriteBlockedPrompts: true }
+      });
+
+      expect(await director.direct(ParseMode.FREEFORM)).toBe('failed');
+
+      expect(vi.mocked(provider.rewritePrompt).mock.calls.filter(([prompt]) => prompt === 'Shot 1')).toHaveLength(1);
+      expect(scene(1)).toMatchObject({ status: SceneStatus.BLOCKED, visualPrompt: 'Safe Shot 1' });
+    });
+
+    it('rewrites a refused start frame prompt before the shot', async () => {
+      const provider = fakeProvider({
+        generateStageHandImage: vi.fn(async (prompt: string) => {
+          if (!prompt.startsWith('Safe')) throw new GenerationError('The image model refused the prompt (IMAGE_SAFETY).', GenerationErrorKind.SAFETY);
+          return `frame of ${prompt}`;
+        })
+      });
+      const { director, scene } = setup(provider, {
+        settings: { concurrency: 1, storyboardMode: false, autoFixContinuity: false, restyleMatchedFrames: false, rewriteBlockedPrompts: true }
+      });
+
+      expect(await director.direct(ParseMode.FREEFORM)).toBe('completed');
+
+      expect(videoCall(provider, 1)).toEqual(expect.arrayContaining([expect.objectContaining({ visualPrompt: 'Safe Shot 1' }), 'frame of Safe Shot 1']));
+      expect(scene(1).promptRewrites).toHaveLength(1);
+    });
+
+    it('rewrites a blocked scene on request, then regenerates it', async () => {
+      const provider = fakeProvider({ generateVideo: refusing() });
+      const snapshot = [scene(1, { status: SceneStatus.BLOCKED, error: 'Veo filtered the clip.', failureKind: GenerationErrorKind.SAFETY }), scene(2)];
+      const { director, scene: current } = setup(provider, {}, snapshot);
+
+      expect(await director.rewriteAndRetry(snapshot, 1)).toBe('completed');
+
+      expect(provider.rewritePrompt).toHaveBeenCalledWith('Shot 1', 'Veo filtered the clip.', expect.anything());
+      expect(current(1)).toMatchObject({ status: SceneStatus.COMPLETED, visualPrompt: 'Safe Shot 1', error: undefined });
+      expect(current(2).status).toBe(SceneStatus.IDLE);
+    });
+  });
+
+  describe('cancellation', () => {
+    it('stops at the budget cap when there is nobody to approve going over', async () => {
+      const provider = fakeProvider();
+      const { director, scene, logs } = setup(provider, { production: { ...production, budgetUsd: 0.01 } });
+
+      expect(await director.direct(ParseMode.FREEFORM)).toBe('capped');
+      expect(provider.generateVideo).not.toHaveBeenCalled();
+      expect([scene(1).status, scene(2).status]).toEqual([SceneStatus.IDLE, SceneStatus.IDLE]);
+      expect(logs().at(-1)).toMatchObject({ status: 'warning', message: expect.stringContaining('stopped at the $0.010 budget cap') });
+    });
+
+    it('takes a failed call off the committed spend', async () => {
+      const confirmBudget = vi.fn(async () => false);
+      const provider = fakeProvider({
+        generateVideo: vi.fn(async (s: ScriptScene) => {
+          if (s.id === 1) throw new Error('Internal error');
+          return { uri: `fake://scene-${s.id}.mp4`, handle: { sceneId: s.id } };
+        })
+      });
+      // Room for one shot, not two
+      const { director, scene } = setup(provider, {
+        production: { ...production, budgetUsd: 1.3 },
+        confirmBudget,
+        settings: { concurrency: 1, storyboardMode: false, autoFixContinuity: false, restyleMatchedFrames: false, rewriteBlockedPrompts: false }
+      });
+
+      expect(await director.direct(ParseMode.FREEFORM)).toBe('failed');
+      expect(confirmBudget).not.toHaveBeenCalled();
+      expect(scene(2).status).toBe(SceneStatus.COMPLETED);
+    });
+
+    it('goes over the budget when the call is approved', async () => {
+      const confirmBudget = vi.fn(async () => true);
+      const { director } = setup(fakeProvider(), { production: { ...production, budgetUsd: 0.01 }, confirmBudget });
+
+      expect(await director.direct(ParseMode.FREEFORM)).toBe('completed');
+      expect(confirmBudget).toHaveBeenCalled();
+    });
+
+    it('cancels the scenes in flight on Stop', async () => {
+      let director: ReturnType<typeof setup>['director'];
+      const provider = fakeProvider({
+        generateVideo: (s, handle, extend, image, config, log, signal) => new Promise<VideoResult>((_, reject) => {
+          signal?.addEventListener('abort', () => reject(signal.reason));
+          director.stop();
+        })
+      });
+      const harness = setup(provider, {
+        settings: { concurrency: 1, storyboardMode: false, autoFixContinuity: false, restyleMatchedFrames: false, rewriteBlockedPrompts: false }
+      });
+      director = harness.director;
+
+      expect(await director.direct(ParseMode.FREEFORM)).toBe('cancelled');
+      expect(harness.scene(1).status).toBe(SceneStatus.CANCELLED);
+      expect(harness.scene(2).status).toBe(SceneStatus.IDLE);
+    });
+  });
+});
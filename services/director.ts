@@ -0,0 +1,1048 @@
+import {
+  ScriptScene,
+  AgentLog,
+  AgentRole,
+  SceneStatus,
+  GenerationProvider,
+  ParseMode,
+  GenerationConfig,
+  BibleEntry,
+  StoryboardDecision,
+  SpendEntry,
+  GenerationErrorKind,
+  ContinuitySeverity,
+  ContinuityMode,
+  ProjectMeta,
+  PromptRewrite,
+  Take,
+  VideoResult
+} from "../types";
+import { LOCAL_PARSERS } from "./scriptParser";
+import { addTake, selectedTake } from "./takes";
+import { extractLastFrame } from "./frames";
+import { traceProvider, sceneOfMessage } from "./trace";
+import { findSceneEntries, withBibleNotes, mergeBibleEntries } from "./bible";
+import { buildExtensionChains, runPool } from "./scheduler";
+import { classifyError } from "./operations";
+import { SceneEvent, nextStatus } from "./sceneMachine";
+import { estimateProductionCost, priceOf, formatUsd, FRESH_SHOT_SECONDS, EXTENSION_SECONDS } from "./costs";
+import { DEFAULT_GENERATION_CONFIG, resolveSceneConfig, getExtensionConflicts, extensionConfig } from "./generationConfig";
+
+export interface DirectorSettings {
+  concurrency: number; // Shots in flight at once
+  storyboardMode: boolean; // Stop every scene at STORYBOARD for approval instead of shooting it
+  autoFixContinuity: boolean; // Send a start frame with a high-severity continuity break back to Stage Hand once
+  restyleMatchedFrames: boolean; // Pass last-frame matches through Stage Hand instead of using them as-is
+  rewriteBlockedPrompts: boolean; // Rewrite a prompt a safety filter refused and try it again, once per scene and run
+}
+
+export type RunOutcome = 'completed' | 'failed' | 'cancelled' | 'capped'; // Capped: stopped at the budget cap
+
+/**
+ * Everything a Director run reports. The Director keeps no scene list of its own: the UI (or the
+ * CLI) folds these into its state, and passes that state back in for the next run.
+ */
+export type DirectorEvent =
+  | { type: 'run'; phase: 'start'; production: ProjectMeta; traceId: string }
+  | { type: 'run'; phase: 'end'; outcome: RunOutcome }
+  | { type: 'log'; entry: AgentLog } // Narration, plus a span entry for every agent call
+  | { type: 'agent'; role: AgentRole } // An agent took over before it had anything to log
+  | { type: 'scenes'; scenes: ScriptScene[] } // The scene list being produced, replacing any before it
+  | { type: 'scene'; sceneId: number; data: Partial<ScriptScene> } // Fields to merge into one scene
+  | { type: 'take'; sceneId: number; take: Take } // A new clip, already circled on its scene
+  | { type: 'bible'; bible: BibleEntry[] }
+  | { type: 'spend'; entry: SpendEntry }
+  | { type: 'storyboard' }; // Every frame is planned and waiting for approval
+
+export interface DirectorOptions {
+  provider: GenerationProvider;
+  production: ProjectMeta;
+  settings: DirectorSettings;
+  bible?: BibleEntry[];
+  spent?: number; // Already on the production's ledger; counts towards the budget
+  onEvent: (event: DirectorEvent) => void;
+  // Asked before a call that would go over the budget; without it the run stops at the cap
+  confirmBudget?: (message: string) => Promise<boolean>;
+  // Decodes the final frame of a clip as base64 PNG; defaults to the browser decoder
+  lastFrame?: (videoUri: string, signal: AbortSignal) => Promise<string>;
+}
+
+// What every step of a Director run needs, built once per run by runPipeline
+interface RunContext {
+  provider: GenerationProvider; // Traced: every agent call lands in the log as a span
+  providerFor: (sceneId: number) => GenerationProvider; // Same, with calls pinned to a scene
+  production: ProjectMeta;
+  bible: BibleEntry[];
+  signal: AbortSignal;
+  spent: number; // Committed production spend (finished and in-flight calls), for budget checks mid-run
+  budgetQueue: Promise<unknown>; // Serializes budget checks so parallel scenes ask one at a time
+  inScene: <T>(sceneId: number, work: () => Promise<T>) => Promise<T>; // Pins a failure or Stop to the scene
+  quotaReached: () => boolean; // Set by a quota failure; shots not yet started would fail the same way
+  rewrites: Map<number, Pick<ScriptScene, 'visualPrompt' | 'promptRewrites'>>; // Prompts rewritten this run, by scene id
+}
+
+// The abort reason of a run stopped at the budget cap, to tell it apart from Stop
+class BudgetCapReached extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BudgetCapReached';
+  }
+}
+
+const stoppedAtBudget = (signal: AbortSignal) => signal.reason instanceof BudgetCapReached;
+
+// What the Director does about each class of failure
+const FAILURE_HANDLING: Record<GenerationErrorKind, { status: SceneStatus.ERROR | SceneStatus.BLOCKED; advice: string }> = {
+  [GenerationErrorKind.QUOTA]: { status: SceneStatus.ERROR, advice: 'Quota or rate limit reached; no further shots are started. Wait, then resume.' },
+  [GenerationErrorKind.SAFETY]: { status: SceneStatus.BLOCKED, advice: 'Blocked by a safety filter. Rewrite the visual prompt (or use Rewrite & retry), then regenerate.' },
+  [GenerationErrorKind.INVALID_INPUT]: { status: SceneStatus.ERROR, advice: 'The request was rejected. Check the prompt, start frame and output settings; skipping this scene.' },
+  [GenerationErrorKind.TRANSIENT]: { status: SceneStatus.ERROR, advice: 'Still failing after automatic retries. Resume to try again.' },
+  [GenerationErrorKind.TIMEOUT]: { status: SceneStatus.ERROR, advice: 'Ran past the scene deadline. Resume to try again.' }
+};
+
+// A paid agent call, as it is checked against the budget and recorded on the spend ledger
+interface BillableCall {
+  role: AgentRole;
+  model: string;
+  units: number; // Calls, images or seconds, as the model is priced
+  sceneId?: number;
+  what: string; // Shown when the call would go over the budget
+}
+
+// Decisions made before any video spend: QA verdict, settings and start frame
+interface ShotPlan {
+  config: GenerationConfig;
+  shouldExtend: boolean;
+  matchesLastFrame?: boolean; // Start from the previous clip's last frame instead of a Stage Hand frame
+  needsFrame?: boolean; // Stage Hand still has to run before the shot
+  feedback?: string;
+  configConflicts?: string[];
+  imageBase64?: string;
+}
+
+/**
+ * DIRECTOR AGENT: Orchestrates Parser, Continuity QA, Stage Hand and Generator for one production.
+ * It knows nothing about React or the terminal; everything it does is reported through `onEvent`.
+ * Each method is one run; the bible and spend it ends with carry over to the next.
+ */
+export const createDirector = (options: DirectorOptions) => {
+  const { production, settings, onEvent: emit } = options;
+  const lastFrame = options.lastFrame ?? extractLastFrame;
+  let bible = options.bible ?? [];
+  let spent = options.spent ?? 0;
+  let controller: AbortController | null = null;
+  let traceId: string | undefined;
+  const statuses = new Map<number, SceneStatus>(); // Where each scene of the current run stands
+
+  // Logger
+  const addLog = (
+    role: AgentRole,
+    message: string,
+    status: AgentLog['status'] = 'info',
+    metadata?: Record<string, any>
+  ) => {
+    emit({
+      type: 'log',
+      entry: {
+        id: crypto.randomUUID(),
+        timestamp: new Date(),
+        role,
+        message,
+        metadata,
+        status,
+        sceneId: metadata?.sceneId ?? sceneOfMessage(message),
+        traceId
+      }
+    });
+  };
+
+  const recordSpan = (entry: AgentLog) => emit({ type: 'log', entry });
+
+  const updateSceneData = (id: number, data: Omit<Partial<ScriptScene>, 'status'>) => {
+    emit({ type: 'scene', sceneId: id, data });
+  };
+
+  // Every status change goes through the scene state machine, along with the fields that change with it
+  const transition = (id: number, event: SceneEvent, data: Omit<Partial<ScriptScene>, 'status'> = {}) => {
+    const status = nextStatus(id, statuses.get(id) ?? SceneStatus.IDLE, event);
+    statuses.set(id, status);
+    emit({ type: 'scene', sceneId: id, data: { ...data, status } });
+  };
+
+  // Starts the state machine from the scenes as the run finds them
+  const track = (sceneList: ScriptScene[]) => {
+    sceneList.forEach(scene => statuses.set(scene.id, scene.status));
+  };
+
+  // Records a billable call that completed on the spend ledger
+  const recordSpend = (role: AgentRole, model: string, units: number, sceneId?: number) => {
+    emit({ type: 'spend', entry: { id: crypto.randomUUID(), timestamp: new Date(), sceneId, role, model, units, usd: priceOf(model, units) } });
+  };
+
+  // Budget cap: commits a call's price to the run before it is made, stopping to ask first if that
+  // would go over the ceiling. Checks queue up so parallel scenes never ask at the same time.
+  const guardBudget = (ctx: RunContext, sceneId: number | undefined, usd: number, what: string): Promise<void> => {
+    const check = async () => {
+      ctx.signal.throwIfAborted();
+      const { budgetUsd: cap } = ctx.production;
+      const label = sceneId !== undefined ? `Scene ${sceneId}: ` : '';
+
+      if (cap !== undefined && ctx.spent + usd > cap) {
+        const message = `${label}${what} (${formatUsd(usd)}) would take spend to ${formatUsd(ctx.spent + usd)}, over the ${formatUsd(cap)} budget.`;
+        addLog(AgentRole.DIRECTOR, `${message} Waiting for approval.`, 'warning');
+        const allowed = options.confirmBudget ? await options.confirmBudget(message) : false;
+
+        if (!allowed) {
+          addLog(AgentRole.DIRECTOR, `${label}Stopping at the budget cap.`, 'warning');
+          controller?.abort(new BudgetCapReached(message));
+          ctx.signal.throwIfAborted();
+        }
+        addLog(AgentRole.DIRECTOR, `${label}Over-budget call approved.`, 'warning');
+      }
+      ctx.spent += usd;
+    };
+
+    const turn = ctx.budgetQueue.then(check);
+    ctx.budgetQueue = turn.catch(() => undefined);
+    return turn;
+  };
+
+  // A billable agent call: checked against the budget before it is made, recorded on the spend
+  // ledger once it succeeds, and taken off the run's committed spend again if it fails
+  const billed = async <T>(ctx: RunContext, charge: BillableCall, call: () => Promise<T>): Promise<T> => {
+    const { role, model, units, sceneId, what } = charge;
+    const usd = priceOf(model, units);
+    await guardBudget(ctx, sceneId, usd, what);
+    try {
+      const result = await call();
+      recordSpend(role, model, units, sceneId);
+      return result;
+    } catch (err) {
+      ctx.spent -= usd;
+      throw err;
+    }
+  };
+
+  // The scene with the prompt it was rewritten to earlier in this run, if any
+  const withRewrite = (ctx: RunContext, scene: ScriptScene): ScriptScene => ({ ...scene, ...ctx.rewrites.get(scene.id) });
+
+  // Safety QA: replaces a scene's visual prompt with a compliant rewrite and records the original,
+  // the rewrite and the reason on the scene. Returns the scene with the new prompt.
+  const rewriteScene = async (ctx: RunContext, scene: ScriptScene, reason: string): Promise<ScriptScene> => {
+    const provider = ctx.providerFor(scene.id);
+    addLog(AgentRole.CONTINUITY_QA, `Scene ${scene.id}: Rewriting the visual prompt for the safety filters...`, 'thinking');
+    const rewrittenPrompt = await billed(
+      ctx,
+      { role: AgentRole.CONTINUITY_QA, model: provider.models.text, units: 1, sceneId: scene.id, what: 'Rewriting the prompt' },
+      () => provider.rewritePrompt(scene.visualPrompt, reason, ctx.signal)
+    );
+
+    const rewrite: PromptRewrite = { originalPrompt: scene.visualPrompt, rewrittenPrompt, reason, timestamp: new Date() };
+    const data = { visualPrompt: rewrittenPrompt, promptRewrites: [...(scene.promptRewrites ?? []), rewrite] };
+    ctx.rewrites.set(scene.id, data);
+    updateSceneData(scene.id, { ...data, promptLint: undefined });
+    addLog(AgentRole.CONTINUITY_QA, `Scene ${scene.id}: Prompt rewritten to "${rewrittenPrompt}".`, 'success', { rewrite });
+    return { ...scene, ...data, promptLint: undefined };
+  };
+
+  // Auto-rewrite: a prompt refused by a safety filter is rewritten so the call can be tried again.
+  // Undefined when the call should fail as it is: another kind of failure, auto-rewrite off, the
+  // scene already rewritten this run, or no rewrite to be had.
+  const retryRefused = async (ctx: RunContext, scene: ScriptScene, error: any): Promise<ScriptScene | undefined> => {
+    if (ctx.signal.aborted || !settings.rewriteBlockedPrompts || ctx.rewrites.has(scene.id)) return undefined;
+    const failure = classifyError(error);
+    if (failure.kind !== GenerationErrorKind.SAFETY) return undefined;
+
+    addLog(AgentRole.DIRECTOR, `Scene ${scene.id}: Refused by a safety filter (${failure.message}). Rewriting the prompt and trying again.`, 'warning');
+    try {
+      return await rewriteScene(ctx, scene, failure.message);
+    } catch (err: any) {
+      if (ctx.signal.aborted) throw err;
+      addLog(AgentRole.CONTINUITY_QA, `Scene ${scene.id}: Could not rewrite the prompt: ${err.message}`, 'warning');
+      return undefined;
+    }
+  };
+
+  // Pre-flight: lints the visual prompts of the scenes about to be shot, before any video spend.
+  // Risks are advisory: they are recorded on the scene and logged with the suggested rewrite.
+  // Prompts already checked as they are now are skipped.
+  const preflight = async (ctx: RunContext, sceneList: ScriptScene[]) => {
+    const { signal } = ctx;
+    const unchecked = sceneList.filter(s => s.promptLint?.prompt !== s.visualPrompt);
+    if (unchecked.length === 0) return;
+    addLog(AgentRole.CONTINUITY_QA, `Pre-flight: checking ${unchecked.length} visual prompt(s) against the safety filters...`, 'thinking');
+
+    let flagged = 0;
+    for (const scene of unchecked) {
+      const provider = ctx.providerFor(scene.id);
+      try {
+        const promptLint = await billed(
+          ctx,
+          { role: AgentRole.CONTINUITY_QA, model: provider.models.text, units: 1, sceneId: scene.id, what: 'Pre-flight safety check' },
+          () => provider.lintPrompt(scene.visualPrompt, signal)
+        );
+        updateSceneData(scene.id, { promptLint });
+        if (promptLint.risks.length === 0) continue;
+
+        flagged++;
+        addLog(AgentRole.CONTINUITY_QA,
+          `Scene ${scene.id}: Prompt may be refused: ${promptLint.risks.map(r => `[${r.category}] "${r.excerpt}": ${r.reason}`).join(' ')}` +
+            (promptLint.suggestedPrompt ? ` Suggested rewrite: "${promptLint.suggestedPrompt}"` : ''),
+          'warning',
+          { promptLint }
+        );
+      } catch (err: any) {
+        if (signal.aborted) throw err;
+        addLog(AgentRole.CONTINUITY_QA, `Scene ${scene.id}: Pre-flight check failed: ${err.message}. Shooting the prompt unchecked.`, 'warning');
+      }
+    }
+
+    addLog(AgentRole.CONTINUITY_QA,
+      flagged === 0
+        ? 'Pre-flight: no risky prompts found.'
+        : `Pre-flight: ${flagged} prompt(s) flagged. ${settings.rewriteBlockedPrompts ? 'Refused prompts will be rewritten and retried.' : 'Apply the suggestions, or turn on auto-rewrite.'}`,
+      flagged === 0 ? 'success' : 'warning'
+    );
+  };
+
+  // Resolves the reference images of bible entries, fetching (and caching) URL-only ones
+  const loadBibleReferences = async (ctx: RunContext, entries: BibleEntry[]): Promise<string[]> => {
+    const images: string[] = [];
+    for (const entry of entries) {
+      if (entry.referenceImageBase64) {
+        images.push(entry.referenceImageBase64);
+        continue;
+      }
+      if (!entry.referenceImageUrl) continue;
+
+      try {
+        addLog(AgentRole.STAGE_HAND, `Fetching bible reference for ${entry.name}...`);
+        const referenceImageBase64 = await ctx.provider.fetchImageAsBase64(entry.referenceImageUrl, ctx.signal);
+        ctx.bible = ctx.bible.map(e => e.id === entry.id ? { ...e, referenceImageBase64 } : e);
+        emit({ type: 'bible', bible: ctx.bible });
+        images.push(referenceImageBase64);
+      } catch (err: any) {
+        if (ctx.signal.aborted) throw err;
+        addLog(AgentRole.STAGE_HAND, `Bible reference for ${entry.name} unavailable: ${err.message}`, 'warning');
+      }
+    }
+    return images;
+  };
+
+  // Stage Hand: fetches the scene's reference image or generates a start frame.
+  // Failures are logged and swallowed so the Generator can fall back to text-only.
+  // `extraReferences` are passed to the image model after the bible's (e.g. the previous shot's last frame).
+  const runStageHand = async (
+    ctx: RunContext,
+    scene: ScriptScene,
+    config: GenerationConfig,
+    extraReferences: string[] = []
+  ): Promise<string | undefined> => {
+    const { signal } = ctx;
+    const provider = ctx.providerFor(scene.id);
+    transition(scene.id, { type: 'PREPARE' });
+    addLog(AgentRole.DIRECTOR, `Scene ${scene.id}: Requesting Stage Hand for visual assets.`);
+
+    try {
+      let imageBase64: string;
+      if (scene.imageUrl) {
+         addLog(AgentRole.STAGE_HAND, `Scene ${scene.id}: Fetching reference image from URL: ${scene.imageUrl}`);
+         imageBase64 = await provider.fetchImageAsBase64(scene.imageUrl, signal);
+         addLog(AgentRole.STAGE_HAND, `Scene ${scene.id}: Image retrieved successfully.`, 'success');
+      } else {
+         addLog(AgentRole.STAGE_HAND, `Scene ${scene.id}: No reference image provided. Generating start frame with Nano Banana...`);
+         const bibleEntries = findSceneEntries(ctx.bible, scene);
+         const referenceImages = [...await loadBibleReferences(ctx, bibleEntries), ...extraReferences];
+         const generate = (visualPrompt: string) => billed(
+           ctx,
+           { role: AgentRole.STAGE_HAND, model: provider.models.image, units: 1, sceneId: scene.id, what: 'Generating a start frame' },
+           () => provider.generateStageHandImage(withBibleNotes(visualPrompt, bibleEntries), config, referenceImages, signal)
+         );
+
+         try {
+           imageBase64 = await generate(scene.visualPrompt);
+         } catch (err) {
+           // Only the scene's own prompt is rewritten; restyle and continuity-fix prompts are the Director's
+           const rewritten = extraReferences.length === 0 ? await retryRefused(ctx, scene, err) : undefined;
+           if (!rewritten) throw err;
+           imageBase64 = await generate(rewritten.visualPrompt);
+         }
+         addLog(AgentRole.STAGE_HAND, `Scene ${scene.id}: Start frame generated successfully.`, 'success');
+      }
+
+      // Save the asset to the scene state so the gallery and storyboard can show it
+      updateSceneData(scene.id, { imageBase64 });
+      return imageBase64;
+
+    } catch (err: any) {
+       if (signal.aborted) throw err;
+       addLog(AgentRole.STAGE_HAND, `Scene ${scene.id}: Asset preparation failed: ${err.message}. Proceeding with text-only generation.`, 'warning');
+       // Proceed without image if stage hand fails
+       return undefined;
+    }
+  };
+
+  // Extending is only possible within the model's limits; the requested settings win
+  // over the QA suggestion, and the conflict is recorded on the scene for the user to see.
+  const resolveExtension = (ctx: RunContext, scene: ScriptScene, wantsExtend: boolean, config: GenerationConfig, previousScene: ScriptScene | null) => {
+    // The previous clip may not be rendered yet (storyboards, parallel runs); it will use its resolved settings
+    const sourceConfig = previousScene
+      ? previousScene.renderedConfig ?? resolveSceneConfig(ctx.production.generationConfig ?? DEFAULT_GENERATION_CONFIG, previousScene)
+      : undefined;
+    const conflicts = wantsExtend ? getExtensionConflicts(scene, config, sourceConfig) : [];
+    const shouldExtend = wantsExtend && !conflicts.some(c => c.blocking);
+    // A scene that won't extend is shot as requested, so only what stopped the extension applies
+    const configConflicts = conflicts.filter(c => shouldExtend || c.blocking);
+    configConflicts.forEach(conflict => {
+      addLog(
+        AgentRole.DIRECTOR,
+        `Scene ${scene.id}: ${conflict.message}${conflict.blocking ? " Starting from the previous clip's last frame instead of extending." : ''}`,
+        'warning'
+      );
+    });
+    return {
+      shouldExtend,
+      configConflicts: configConflicts.length > 0 ? configConflicts.map(c => c.message) : undefined
+    };
+  };
+
+  // Continuity QA for one scene: decides fresh shot, extension or match-from-last-frame within the model's limits
+  const qaScene = async (
+    ctx: RunContext,
+    currentScene: ScriptScene,
+    previousScene: ScriptScene | null
+  ): Promise<ShotPlan> => {
+    const { provider, production, signal } = ctx;
+    const config = resolveSceneConfig(production.generationConfig ?? DEFAULT_GENERATION_CONFIG, currentScene);
+
+    // Update status to analyzing
+    transition(currentScene.id, { type: 'ANALYZE' }, { error: undefined, failureKind: undefined, configConflicts: undefined, continuityFindings: undefined });
+
+    // A. CONTINUITY CHECK
+    addLog(AgentRole.DIRECTOR, `Scene ${currentScene.id}: Requesting Continuity QA check.`);
+    // The first scene is decided without a model call
+    const check = () => provider.checkContinuity(currentScene, previousScene, signal);
+    const continuityCheck = previousScene
+      ? await billed(ctx, { role: AgentRole.CONTINUITY_QA, model: provider.models.text, units: 1, sceneId: currentScene.id, what: 'Continuity QA' }, check)
+      : await check();
+
+    addLog(AgentRole.CONTINUITY_QA,
+      `Scene ${currentScene.id} Analysis: ${continuityCheck.reasoning} -> ${continuityCheck.mode}`,
+      continuityCheck.mode !== ContinuityMode.FRESH_SHOT ? 'warning' : 'info'
+    );
+
+    const wantsExtend = continuityCheck.mode === ContinuityMode.EXTEND;
+    const { shouldExtend, configConflicts } = resolveExtension(ctx, currentScene, wantsExtend, config, previousScene);
+    // An extension the model can't make falls back to the last frame; a script image URL always wins
+    const matchesLastFrame = !currentScene.imageUrl &&
+      (continuityCheck.mode === ContinuityMode.MATCH_LAST_FRAME || (wantsExtend && !shouldExtend));
+
+    // Update scene with decision
+    updateSceneData(currentScene.id, {
+      feedback: continuityCheck.reasoning,
+      isExtension: shouldExtend,
+      matchesLastFrame,
+      configConflicts,
+      imageBase64: undefined
+    });
+
+    return { config, shouldExtend, matchesLastFrame, needsFrame: !shouldExtend, feedback: continuityCheck.reasoning, configConflicts };
+  };
+
+  // Pre-production for one scene (Continuity QA + Stage Hand): everything before video spend
+  const planScene = async (
+    ctx: RunContext,
+    currentScene: ScriptScene,
+    previousScene: ScriptScene | null
+  ): Promise<ShotPlan> => {
+    const plan = await qaScene(ctx, currentScene, previousScene);
+
+    // B. STAGE HAND (If not extending)
+    // We only generate/fetch a start frame if we are creating a new video, not extending an existing one.
+    if (!plan.needsFrame) return plan;
+    if (plan.matchesLastFrame && !previousScene?.videoUri) {
+      // Storyboards plan every frame before anything is shot; the frame is taken at shoot time
+      addLog(AgentRole.DIRECTOR, `Scene ${currentScene.id}: Will start from the last frame of Scene ${previousScene?.id} once it is shot.`);
+      return plan;
+    }
+    return prepareFrame(ctx, currentScene, previousScene, plan);
+  };
+
+  // Start frame for a planned shot: the previous clip's last frame when matching it, otherwise
+  // Stage Hand followed by visual QA against the previous clip
+  const prepareFrame = async (ctx: RunContext, scene: ScriptScene, previousScene: ScriptScene | null, plan: ShotPlan): Promise<ShotPlan> => {
+    if (plan.matchesLastFrame) {
+      const frame = await matchLastFrame(ctx, scene, previousScene, plan.config);
+      if (frame) return { ...plan, needsFrame: false, imageBase64: frame };
+      addLog(AgentRole.DIRECTOR, `Scene ${scene.id}: No last frame to match. Shooting fresh.`, 'warning');
+      updateSceneData(scene.id, { matchesLastFrame: false });
+      plan = { ...plan, matchesLastFrame: false };
+    }
+
+    const imageBase64 = await runStageHand(ctx, scene, plan.config);
+    // Stage Hand may have rewritten a refused prompt
+    scene = withRewrite(ctx, scene);
+    return { ...plan, needsFrame: false, imageBase64: await inspectStartFrame(ctx, scene, previousScene, plan.config, imageBase64) };
+  };
+
+  // Match-from-last-frame: decodes the previous clip's final frame locally and uses it as the
+  // start frame, re-styled by Stage Hand when asked to. Undefined when there is no frame to use.
+  const matchLastFrame = async (
+    ctx: RunContext,
+    scene: ScriptScene,
+    previousScene: ScriptScene | null,
+    config: GenerationConfig
+  ): Promise<string | undefined> => {
+    if (!previousScene?.videoUri) return undefined;
+    const { signal } = ctx;
+    transition(scene.id, { type: 'PREPARE' });
+
+    let frame: string;
+    try {
+      frame = await lastFrame(previousScene.videoUri, signal);
+    } catch (err: any) {
+      if (signal.aborted) throw err;
+      addLog(AgentRole.STAGE_HAND, `Scene ${scene.id}: Could not read the last frame of Scene ${previousScene.id} (${err.message}).`, 'warning');
+      return undefined;
+    }
+    addLog(AgentRole.STAGE_HAND, `Scene ${scene.id}: Starting from the last frame of Scene ${previousScene.id}.`, 'success');
+
+    if (settings.restyleMatchedFrames) {
+      const restyled = await runStageHand(ctx, {
+        ...scene,
+        visualPrompt: `Restyle the last reference image into the opening frame of this shot, keeping its set, characters, wardrobe and lighting: ${scene.visualPrompt}`
+      }, config, [frame]);
+      if (restyled) return restyled;
+    }
+
+    updateSceneData(scene.id, { imageBase64: frame });
+    return frame;
+  };
+
+  // Visual Continuity QA: compares the start frame with the last frame of the previous clip, when
+  // that clip is already rendered. With auto-fix on, a high-severity finding sends the frame back
+  // to Stage Hand once, with the findings as notes and the previous frame as a reference.
+  const inspectStartFrame = async (
+    ctx: RunContext,
+    scene: ScriptScene,
+    previousScene: ScriptScene | null,
+    config: GenerationConfig,
+    imageBase64: string | undefined
+  ): Promise<string | undefined> => {
+    if (!imageBase64 || !previousScene?.videoUri) return imageBase64;
+    const { provider, signal } = ctx;
+
+    let previousFrame: string;
+    try {
+      previousFrame = await lastFrame(previousScene.videoUri, signal);
+    } catch (err: any) {
+      if (signal.aborted) throw err;
+      addLog(AgentRole.CONTINUITY_QA, `Scene ${scene.id}: Could not read the last frame of Scene ${previousScene.id} (${err.message}). Skipping visual QA.`, 'warning');
+      return imageBase64;
+    }
+
+    const inspect = async (frame: string) => {
+      const findings = await billed(
+        ctx,
+        { role: AgentRole.CONTINUITY_QA, model: provider.models.text, units: 1, sceneId: scene.id, what: 'Visual continuity QA' },
+        () => provider.inspectContinuity(previousFrame, frame, scene, previousScene, signal)
+      );
+
+      updateSceneData(scene.id, { continuityFindings: findings });
+      addLog(AgentRole.CONTINUITY_QA,
+        findings.length > 0
+          ? `Scene ${scene.id}: ${findings.length} continuity finding(s) against Scene ${previousScene.id}: ${findings.map(f => `[${f.severity}] ${f.description}`).join(' ')}`
+          : `Scene ${scene.id}: Start frame matches the end of Scene ${previousScene.id}.`,
+        findings.length > 0 ? 'warning' : 'success',
+        { findings }
+      );
+      return findings;
+    };
+
+    const findings = await inspect(imageBase64);
+    const high = findings.filter(f => f.severity === ContinuitySeverity.HIGH);
+    if (high.length === 0 || !settings.autoFixContinuity) return imageBase64;
+    if (scene.imageUrl) {
+      addLog(AgentRole.DIRECTOR, `Scene ${scene.id}: Start frame comes from the script's image URL; not regenerating it.`, 'warning');
+      return imageBase64;
+    }
+
+    addLog(AgentRole.DIRECTOR, `Scene ${scene.id}: High-severity continuity break. Sending the start frame back to Stage Hand.`, 'warning');
+    const notes = high.map(f => f.description).join(' ');
+    const fixed = await runStageHand(ctx, { ...scene, visualPrompt: `${scene.visualPrompt}\nMatch the previous shot (the last reference image). Fix: ${notes}` }, config, [previousFrame]);
+    if (!fixed) {
+      updateSceneData(scene.id, { imageBase64 });
+      return imageBase64;
+    }
+    await inspect(fixed);
+    return fixed;
+  };
+
+  // Rebuilds the plan of a scene that was already through pre-production (e.g. an approved storyboard frame)
+  const planFromScene = (ctx: RunContext, scene: ScriptScene, previousScene: ScriptScene | null): ShotPlan => {
+    const config = resolveSceneConfig(ctx.production.generationConfig ?? DEFAULT_GENERATION_CONFIG, scene);
+    const { shouldExtend, configConflicts } = resolveExtension(ctx, scene, Boolean(scene.isExtension), config, previousScene);
+    const matchesLastFrame = Boolean(scene.matchesLastFrame) || (Boolean(scene.isExtension) && !shouldExtend);
+    // A matched frame is only taken once the previous scene is shot
+    const needsFrame = matchesLastFrame && !scene.imageBase64;
+    return { config, shouldExtend, matchesLastFrame, needsFrame, feedback: scene.feedback, configConflicts, imageBase64: scene.imageBase64 };
+  };
+
+  // Generator for one planned scene; returns the scene as produced
+  const shootScene = async (
+    ctx: RunContext,
+    currentScene: ScriptScene,
+    previousScene: ScriptScene | null,
+    plan: ShotPlan
+  ): Promise<ScriptScene> => {
+    const { provider, signal } = ctx;
+    const { shouldExtend, imageBase64 } = plan;
+
+    // Bible: canonical descriptions for every recurring entity this scene mentions
+    const bibleEntries = findSceneEntries(ctx.bible, currentScene);
+    if (bibleEntries.length > 0) {
+      addLog(AgentRole.DIRECTOR, `Scene ${currentScene.id}: Applying bible for ${bibleEntries.map(e => e.name).join(', ')}.`);
+    }
+
+    // C. GENERATION
+    transition(currentScene.id, { type: 'GENERATE' });
+    addLog(AgentRole.DIRECTOR, `Scene ${currentScene.id}: Greenlit for Veo generation.`);
+
+    // Determine if we can actually extend (requires handle)
+    const canExtend = Boolean(shouldExtend && previousScene?.videoHandle);
+    const videoModel = canExtend ? provider.models.videoExtension : provider.models.video;
+    const videoSeconds = canExtend ? EXTENSION_SECONDS : FRESH_SHOT_SECONDS;
+    const config = canExtend ? extensionConfig(plan.config) : plan.config;
+
+    // A prompt refused by a safety filter can be rewritten and shot once more
+    const generate = async (scene: ScriptScene): Promise<{ scene: ScriptScene; promptedScene: ScriptScene; videoResult: VideoResult }> => {
+      const promptedScene = { ...scene, visualPrompt: withBibleNotes(scene.visualPrompt, bibleEntries) };
+      try {
+        const videoResult = await billed(
+          ctx,
+          { role: AgentRole.GENERATOR, model: videoModel, units: videoSeconds, sceneId: scene.id, what: canExtend ? 'Extending the previous clip' : 'Generating the shot' },
+          () => provider.generateVideo(
+            promptedScene,
+            previousScene?.videoHandle,
+            canExtend,
+            imageBase64,
+            config,
+            (log) => addLog(log.role, log.message, log.status, log.metadata),
+            signal
+          )
+        );
+        return { scene, promptedScene, videoResult };
+      } catch (err) {
+        const rewritten = await retryRefused(ctx, scene, err);
+        if (!rewritten) throw err;
+        return generate(rewritten);
+      }
+    };
+    const { scene, promptedScene, videoResult } = await generate(withRewrite(ctx, currentScene));
+
+    // Keep the clip as a new take and circle it; earlier takes stay selectable in the gallery
+    const updatedSceneData: Omit<Partial<ScriptScene>, 'status'> = {
+      ...addTake(scene, {
+        prompt: promptedScene.visualPrompt,
+        model: videoModel,
+        config,
+        seed: videoResult.seed,
+        startFrameBase64: imageBase64,
+        isExtension: shouldExtend,
+        matchesLastFrame: Boolean(plan.matchesLastFrame),
+        sourceTakeId: canExtend ? previousScene?.selectedTakeId : undefined,
+        videoUri: videoResult.uri, // Use raw URI (likely a signed GCS URL)
+        videoHandle: videoResult.handle // Store for next iteration
+      }),
+      feedback: plan.feedback,
+      // Conflicts with extending don't apply to a shot that couldn't extend after all
+      configConflicts: shouldExtend && !canExtend ? undefined : plan.configConflicts,
+      error: undefined,
+      failureKind: undefined
+    };
+
+    // Return the latest state so it can serve as the next scene's previousScene
+    const produced = { ...scene, ...updatedSceneData, status: SceneStatus.COMPLETED };
+    transition(currentScene.id, { type: 'COMPLETE' }, updatedSceneData);
+    emit({ type: 'take', sceneId: currentScene.id, take: selectedTake(produced)! });
+    addLog(AgentRole.GENERATOR, `Scene ${currentScene.id} wrapped. Video ready.`, 'success');
+    return produced;
+  };
+
+  // Runs Continuity QA, Stage Hand and Generator for a single scene and returns it as produced
+  const produceScene = async (
+    ctx: RunContext,
+    currentScene: ScriptScene,
+    previousScene: ScriptScene | null
+  ): Promise<ScriptScene> => {
+    const plan = await planScene(ctx, currentScene, previousScene);
+    return shootScene(ctx, currentScene, previousScene, plan);
+  };
+
+  // Logs the projected spend for the scenes in `sceneList` that `include` selects
+  const logEstimate = (ctx: RunContext, sceneList: ScriptScene[], include: (scene: ScriptScene) => boolean = () => true) => {
+    const perScene = estimateProductionCost(ctx.provider.models, sceneList).scenes.filter((_, i) => include(sceneList[i]));
+    const total = perScene.reduce((sum, e) => sum + e.total, 0);
+    const worstCase = perScene.filter(e => e.assumesWorstCase).length;
+    const cap = ctx.production.budgetUsd;
+
+    addLog(
+      AgentRole.DIRECTOR,
+      `Projected spend: ${formatUsd(total)} for ${perScene.length} scene(s)` +
+        (worstCase > 0 ? ` (worst case for ${worstCase} not yet through QA)` : '') +
+        (cap !== undefined ? `. Budget ${formatUsd(cap)}, ${formatUsd(ctx.spent)} spent so far.` : '.'),
+      cap !== undefined && ctx.spent + total > cap ? 'warning' : 'info'
+    );
+  };
+
+  // Shared run lifecycle: cancellation, tracing and failure reporting
+  const runPipeline = async (work: (ctx: RunContext) => Promise<void>): Promise<RunOutcome> => {
+    traceId = crypto.randomUUID();
+    const provider = traceProvider(options.provider, recordSpan, traceId);
+    const providerFor = (sceneId: number) => traceProvider(options.provider, recordSpan, traceId, sceneId);
+    controller = new AbortController();
+    const { signal } = controller;
+    const failedScenes = new Set<number>();
+    let quotaReached = false;
+    let outcome: RunOutcome = 'completed';
+    statuses.clear();
+
+    emit({ type: 'run', phase: 'start', production, traceId });
+
+    // Several scenes can be in flight at once, so each one settles its own status
+    const inScene = async <T>(sceneId: number, work: () => Promise<T>): Promise<T> => {
+      try {
+        return await work();
+      } catch (error: any) {
+        if (signal.aborted) {
+          // A scene the budget cap stopped was not shot, and goes back to waiting for a Resume
+          transition(sceneId, { type: stoppedAtBudget(signal) ? 'HALT' : 'CANCEL' });
+        } else {
+          const failure = classifyError(error);
+          const { status, advice } = FAILURE_HANDLING[failure.kind];
+          failedScenes.add(sceneId);
+          if (failure.kind === GenerationErrorKind.QUOTA) quotaReached = true;
+          transition(sceneId, { type: 'FAIL', status }, { error: failure.message, failureKind: failure.kind });
+          addLog(AgentRole.DIRECTOR, `Scene ${sceneId} failed: ${failure.message} ${advice}`, 'error', { sceneId, kind: failure.kind, ...failure.metadata });
+        }
+        throw error;
+      }
+    };
+
+    const ctx: RunContext = {
+      provider,
+      providerFor,
+      production,
+      bible,
+      signal,
+      spent,
+      budgetQueue: Promise.resolve(),
+      inScene,
+      quotaReached: () => quotaReached,
+      rewrites: new Map()
+    };
+
+    try {
+      await work(ctx);
+    } catch (error: any) {
+      if (stoppedAtBudget(signal)) {
+        outcome = 'capped';
+        addLog(AgentRole.DIRECTOR, `Production stopped at the ${formatUsd(production.budgetUsd ?? 0)} budget cap with ${formatUsd(ctx.spent)} spent. Raise the budget, then resume.`, 'warning');
+      } else if (signal.aborted) {
+        outcome = 'cancelled';
+        addLog(AgentRole.DIRECTOR, "Cut! Production halted by user.", 'warning');
+      } else if (failedScenes.size > 0) {
+        outcome = 'failed';
+        addLog(AgentRole.DIRECTOR, `${failedScenes.size} scene(s) failed (${[...failedScenes].join(', ')}). Resume to continue from the first unfinished scene.`, 'error');
+      } else {
+        outcome = 'failed';
+        addLog(AgentRole.DIRECTOR, `Critical failure: ${error.message}`, 'error');
+      }
+    } finally {
+      // Scenes that never got a generation slot go back to waiting
+      statuses.forEach((status, id) => {
+        if (status === SceneStatus.QUEUED) transition(id, { type: 'RELEASE' });
+      });
+      bible = ctx.bible;
+      spent = ctx.spent;
+      controller = null;
+      traceId = undefined;
+      emit({ type: 'run', phase: 'end', outcome });
+    }
+    return outcome;
+  };
+
+  // Shoots planned scenes (keyed by scene id). Extension chains need the previous clip's handle, so
+  // each chain is shot in order; independent chains run in parallel, `concurrency` at a time.
+  const shootPlanned = async (ctx: RunContext, sceneList: ScriptScene[], plans: Map<number, ShotPlan>) => {
+    const chains = buildExtensionChains(
+      sceneList.length,
+      i => plans.has(sceneList[i].id),
+      i => Boolean(plans.get(sceneList[i].id)?.shouldExtend || plans.get(sceneList[i].id)?.matchesLastFrame)
+    );
+    addLog(AgentRole.DIRECTOR, `Scheduling ${plans.size} shot(s) as ${chains.length} independent chain(s), up to ${settings.concurrency} at a time.`);
+
+    await runPool(chains, settings.concurrency, async (chain) => {
+      let previousScene: ScriptScene | null = chain[0] > 0 ? sceneList[chain[0] - 1] : null;
+
+      for (const [position, i] of chain.entries()) {
+        const scene = sceneList[i];
+        let plan = plans.get(scene.id)!;
+        if (ctx.quotaReached()) {
+          addLog(AgentRole.DIRECTOR, `Scene ${scene.id}: Not started, the provider quota was reached.`, 'warning');
+          return;
+        }
+
+        try {
+          previousScene = await ctx.inScene(scene.id, async () => {
+            if (plan.shouldExtend && !previousScene?.videoHandle) {
+              // The shot this one continues was not produced, so it needs a start frame of its own
+              addLog(AgentRole.DIRECTOR, `Scene ${scene.id}: Scene ${previousScene?.id} has no video to extend. Shooting fresh.`, 'warning');
+              plan = { ...plan, shouldExtend: false, needsFrame: true, configConflicts: undefined };
+            }
+            if (plan.needsFrame) {
+              plan = await prepareFrame(ctx, scene, previousScene, plan);
+            }
+            return shootScene(ctx, scene, previousScene, plan);
+          });
+        } catch (error) {
+          if (!ctx.signal.aborted) {
+            chain.slice(position + 1).forEach(j => {
+              addLog(AgentRole.DIRECTOR, `Scene ${sceneList[j].id}: Not shot, the chain it extends failed at Scene ${scene.id}.`, 'warning');
+            });
+          }
+          throw error;
+        }
+      }
+    }, ctx.signal);
+  };
+
+  // Produces the scenes of `sceneList` that `include` selects: Continuity QA runs first in script
+  // order to decide the extension chains, then the chains are shot through the worker pool
+  const produceScenes = async (ctx: RunContext, sceneList: ScriptScene[], include: (scene: ScriptScene) => boolean = () => true) => {
+    const plans = new Map<number, ShotPlan>();
+
+    for (const [i, scene] of sceneList.entries()) {
+      if (!include(scene)) continue;
+      ctx.signal.throwIfAborted();
+
+      const plan = await ctx.inScene(scene.id, () => qaScene(ctx, scene, i > 0 ? sceneList[i - 1] : null));
+      transition(scene.id, { type: 'QUEUE' });
+      plans.set(scene.id, plan);
+    }
+
+    await shootPlanned(ctx, sceneList, plans);
+    addLog(AgentRole.DIRECTOR, "That's a wrap! All scenes processed.", 'success');
+  };
+
+  // Storyboard mode: pre-production only, every scene stops at STORYBOARD until approved. A scene
+  // that fails stays failed in the grid to be rerolled; the other frames are still prepared.
+  const storyboardFrom = async (ctx: RunContext, sceneList: ScriptScene[]) => {
+    let previousScene: ScriptScene | null = null;
+    const failures: unknown[] = [];
+    let ready = 0;
+
+    for (const scene of sceneList) {
+      if (ctx.signal.aborted) break;
+      if (ctx.quotaReached()) {
+        addLog(AgentRole.DIRECTOR, `Scene ${scene.id}: Not started, the provider quota was reached.`, 'warning');
+        previousScene = scene;
+        continue;
+      }
+
+      try {
+        const plan = await ctx.inScene(scene.id, () => planScene(ctx, scene, previousScene));
+        transition(scene.id, { type: 'STORYBOARD' }, { storyboardDecision: StoryboardDecision.PENDING });
+        ready++;
+        previousScene = { ...scene, feedback: plan.feedback, isExtension: plan.shouldExtend, matchesLastFrame: plan.matchesLastFrame, imageBase64: plan.imageBase64 };
+      } catch (error) {
+        if (ctx.signal.aborted) throw error;
+        failures.push(error);
+        previousScene = scene;
+      }
+    }
+
+    ctx.signal.throwIfAborted();
+    addLog(
+      AgentRole.DIRECTOR,
+      `Storyboard ready: ${ready} frame(s) awaiting approval before Veo generation.` +
+        (failures.length > 0 ? ` ${failures.length} scene(s) failed; reroll them from the storyboard.` : ''),
+      failures.length > 0 ? 'warning' : 'success'
+    );
+    emit({ type: 'storyboard' });
+    if (failures.length > 0) throw failures[0];
+  };
+
+  // PARSE PHASE: shared by Breakdown and Action!
+  const parseScenes = async (ctx: RunContext, parseMode: ParseMode): Promise<ScriptScene[]> => {
+    const { provider, production, signal } = ctx;
+    addLog(AgentRole.DIRECTOR, `Initiating pre-production on ${provider.label}. Delegating script parsing...`);
+    emit({ type: 'agent', role: AgentRole.PARSER });
+
+    let parsedScenes: ScriptScene[];
+    const localParser = LOCAL_PARSERS[parseMode];
+    if (localParser) {
+      // Deterministic: no LLM call, scenes come out exactly as written
+      const { scenes: localScenes, errors } = localParser(production.scriptText);
+      errors.forEach(e => addLog(AgentRole.PARSER, `Line ${e.line}: ${e.message}`, 'error'));
+      if (errors.length > 0) {
+        throw new Error(`Script has ${errors.length} formatting error(s). Fix them or switch to Freeform parsing.`);
+      }
+      parsedScenes = localScenes;
+    } else {
+      parsedScenes = await billed(
+        ctx,
+        { role: AgentRole.PARSER, model: provider.models.text, units: 1, what: 'Parsing the script' },
+        () => provider.parseScript(production.scriptText, signal)
+      );
+    }
+    addLog(AgentRole.PARSER, `Script parsed successfully. Identified ${parsedScenes.length} scenes.`, 'success');
+    return parsedScenes;
+  };
+
+  // Bible extraction, then production (or a storyboard) from a parsed or edited scene list
+  const produceFrom = async (ctx: RunContext, parsedScenes: ScriptScene[]) => {
+    const { provider, signal } = ctx;
+    emit({ type: 'scenes', scenes: parsedScenes });
+    track(parsedScenes);
+
+    // BIBLE: recurring characters and locations, merged into any the user already has
+    try {
+      addLog(AgentRole.PARSER, "Extracting recurring characters and locations for the bible...", 'thinking');
+      const extracted = await billed(
+        ctx,
+        { role: AgentRole.PARSER, model: provider.models.text, units: 1, what: 'Bible extraction' },
+        () => provider.extractBible(parsedScenes, signal)
+      );
+      ctx.bible = mergeBibleEntries(ctx.bible, extracted);
+      emit({ type: 'bible', bible: ctx.bible });
+      addLog(AgentRole.PARSER, `Bible updated: ${ctx.bible.map(e => e.name).join(', ') || 'no recurring entities found'}.`, 'success');
+    } catch (err: any) {
+      if (signal.aborted) throw err;
+      addLog(AgentRole.PARSER, `Bible extraction failed: ${err.message}. Continuing without new entries.`, 'warning');
+    }
+
+    // PRODUCTION LOOP (or a storyboard to approve first)
+    logEstimate(ctx, parsedScenes);
+    await preflight(ctx, parsedScenes);
+    if (settings.storyboardMode) {
+      await storyboardFrom(ctx, parsedScenes);
+    } else {
+      await produceScenes(ctx, parsedScenes);
+    }
+  };
+
+  // Action!: parse the production's script, then produce (or storyboard) every scene
+  const direct = (parseMode: ParseMode) => runPipeline(async (ctx) => {
+    await produceFrom(ctx, await parseScenes(ctx, parseMode));
+  });
+
+  // First phase of the two-phase workflow: parse into an editable scene list without shooting.
+  // Undefined when parsing failed or was stopped.
+  const breakdown = async (parseMode: ParseMode): Promise<ScriptScene[] | undefined> => {
+    let parsed: ScriptScene[] | undefined;
+    await runPipeline(async (ctx) => {
+      parsed = await parseScenes(ctx, parseMode);
+      addLog(AgentRole.DIRECTOR, 'Breakdown ready. Review the scenes, then call Action!.');
+    });
+    return parsed;
+  };
+
+  // Second phase: produce an edited breakdown
+  const shootBreakdown = (edited: ScriptScene[]) => runPipeline(async (ctx) => {
+    addLog(AgentRole.DIRECTOR, `Shooting the edited breakdown: ${edited.length} scene(s).`);
+    await produceFrom(ctx, edited);
+  });
+
+  // Produces every scene from the first unfinished one; completed scenes before it are kept as-is
+  const resume = (snapshot: ScriptScene[]) => runPipeline(async (ctx) => {
+    track(snapshot);
+    const from = snapshot.find(s => s.status !== SceneStatus.COMPLETED);
+    if (!from) return;
+    const completed = snapshot.filter(s => s.status === SceneStatus.COMPLETED).length;
+    addLog(AgentRole.DIRECTOR, `Resuming production from Scene ${from.id}. Keeping ${completed} completed scene(s).`);
+    logEstimate(ctx, snapshot, s => s.status !== SceneStatus.COMPLETED);
+    await preflight(ctx, snapshot.filter(s => s.status !== SceneStatus.COMPLETED));
+    await produceScenes(ctx, snapshot, s => s.status !== SceneStatus.COMPLETED);
+  });
+
+  // Re-runs the scene at `index`, then re-extends any scenes that extend from it so the chain stays linked
+  const regenerateFrom = async (ctx: RunContext, snapshot: ScriptScene[], index: number) => {
+    const chain = [snapshot[index]];
+    while (snapshot[index + chain.length]?.isExtension) chain.push(snapshot[index + chain.length]);
+    await preflight(ctx, chain);
+
+    let previousScene: ScriptScene | null = index > 0 ? snapshot[index - 1] : null;
+    for (const [position, scene] of chain.entries()) {
+      if (position > 0) {
+        addLog(AgentRole.DIRECTOR, `Scene ${scene.id} extends Scene ${previousScene?.id}. Re-linking extension chain.`);
+      }
+
+      const sourceScene = previousScene;
+      previousScene = await ctx.inScene(scene.id, () => produceScene(ctx, scene, sourceScene));
+    }
+
+    addLog(AgentRole.DIRECTOR, `Scene ${chain[0].id}: Regeneration complete.`, 'success');
+  };
+
+  // Re-runs a single scene and the extensions that hang off it
+  const regenerate = (snapshot: ScriptScene[], id: number) => runPipeline(async (ctx) => {
+    track(snapshot);
+    const index = snapshot.findIndex(s => s.id === id);
+    if (index === -1) return;
+    addLog(AgentRole.DIRECTOR, `Scene ${id}: Regenerating on request.`);
+    await regenerateFrom(ctx, snapshot, index);
+  });
+
+  // Rewrite & retry for a scene a safety filter blocked: Safety QA rewrites its visual prompt,
+  // then the scene is regenerated with it
+  const rewriteAndRetry = (snapshot: ScriptScene[], id: number) => runPipeline(async (ctx) => {
+    track(snapshot);
+    const index = snapshot.findIndex(s => s.id === id);
+    if (index === -1) return;
+    addLog(AgentRole.DIRECTOR, `Scene ${id}: Rewriting the blocked prompt, then regenerating.`);
+
+    const rewritten = await rewriteScene(ctx, snapshot[index], snapshot[index].error ?? 'Blocked by a safety filter.');
+    await regenerateFrom(ctx, snapshot.map(s => s.id === id ? rewritten : s), index);
+  });
+
+  // Generator pass over the storyboard: approved frames are shot in order, everything else is left alone
+  const shootApproved = (snapshot: ScriptScene[]) => runPipeline(async (ctx) => {
+    track(snapshot);
+    const approved = snapshot.filter(s => s.storyboardDecision === StoryboardDecision.APPROVED && s.status !== SceneStatus.COMPLETED);
+    addLog(AgentRole.DIRECTOR, `Shooting ${approved.length} approved storyboard frame(s).`);
+    logEstimate(ctx, snapshot, s => s.storyboardDecision === StoryboardDecision.APPROVED);
+    await preflight(ctx, approved);
+
+    const plans = new Map<number, ShotPlan>();
+    snapshot.forEach((scene, i) => {
+      if (!approved.includes(scene)) return;
+      plans.set(scene.id, planFromScene(ctx, scene, i > 0 ? snapshot[i - 1] : null));
+      transition(scene.id, { type: 'QUEUE' });
+    });
+
+    await shootPlanned(ctx, snapshot, plans);
+    addLog(AgentRole.DIRECTOR, "That's a wrap! All approved scenes processed.", 'success');
+  });
+
+  // Re-runs Continuity QA and Stage Hand for one storyboard frame, e.g. after its prompt was edited
+  const reroll = (snapshot: ScriptScene[], id: number) => runPipeline(async (ctx) => {
+    track(snapshot);
+    const index = snapshot.findIndex(s => s.id === id);
+    if (index === -1) return;
+    addLog(AgentRole.DIRECTOR, `Scene ${id}: Rerolling storyboard frame.`);
+    await ctx.inScene(id, () => planScene(ctx, snapshot[index], index > 0 ? snapshot[index - 1] : null));
+    transition(id, { type: 'STORYBOARD' }, { storyboardDecision: StoryboardDecision.PENDING });
+  });
+
+  // Cancels every in-flight agent call of the current run
+  const stop = () => {
+    if (!controller || controller.signal.aborted) return;
+    addLog(AgentRole.DIRECTOR, "Stop requested. Cancelling in-flight agent calls...", 'warning');
+    controller.abort();
+  };
+
+  return { direct, breakdown, shootBreakdown, resume, regenerate, rewriteAndRetry, shootApproved, reroll, stop };
+};
+
+export type Director = ReturnType<typeof createDirector>;
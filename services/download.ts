@@ -0,0 +1,20 @@
+/**
+ * Saves a blob to the user's machine via a temporary object URL.
+ */
+export const downloadBlob = (filename: string, blob: Blob) => {
+  const url = URL.createObjectURL(blob);
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = filename;
+  anchor.click();
+  // Give the browser a tick to start the download before releasing the URL
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const downloadText = (filename: string, text: string, mimeType = 'text/plain') => {
+  downloadBlob(filename, new Blob([text], { type: `${mimeType};charset=utf-8` }));
+};
+
+// Turns a production name into a safe file name stem
+export const toFileStem = (name: string): string =>
+  name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'production';
@@ -0,0 +1,243 @@
+import { ScriptScene, ScriptParseIssue, ScriptParseResult, DialogueLine, SceneStatus, SceneTransition } from "../types";
+import { parseTransition, toScreenplayTransition } from "./transitions";
+
+// https://fountain.io/syntax — only the elements that map onto ScriptScene are interpreted;
+// sections, page breaks and notes are read and dropped.
+const SCENE_HEADING = /^(INT|EXT|EST|INT\.?\/EXT|I\/E)[.\s]/i;
+const FORCED_HEADING = /^\.[^.]/;
+const SCENE_NUMBER = /\s*#[\w.-]+#\s*$/;
+const TRANSITION = /^[A-Z\s]+TO:$/;
+const TITLE_PAGE_KEY = /^(Title|Credit|Author|Authors|Source|Draft date|Date|Contact|Copyright|Notes|Revision)\s*:/i;
+const IMAGE_NOTE = /^\[\[\s*Image\s*:\s*(\S+)\s*\]\]$/i;
+const NARRATION_NOTE = /^\[\[\s*Narration\s*:\s*(.*?)\s*\]\]$/i;
+const NOTE = /\[\[[\s\S]*?\]\]/g;
+
+interface SceneDraft {
+  line: number;
+  heading: string;
+  action: string[];
+  synopsis: string[];
+  dialogue: DialogueLine[];
+  spoken: (DialogueLine | string)[]; // Dialogue and narration (strings), in script order, for the captions
+  imageUrl?: string;
+  transitionIn?: SceneTransition;
+}
+
+// Character cues are upper case (extensions like "(V.O.)" allowed) or forced with "@"
+const isCharacterCue = (line: string) =>
+  line.startsWith('@') || (/[A-Z]/.test(line) && line === line.toUpperCase() && !/[a-z]/.test(line.replace(/\(.*?\)/g, '')));
+
+const stripEmphasis = (text: string) => text.replace(/(\*{1,3}|_)(?=\S)(.+?)(?<=\S)\1/g, '$2');
+
+// Cue extensions like "(V.O.)" are for the page, not the caption
+const captionSpeaker = (character: string) => character.replace(/\s*\(.*?\)/g, '').trim();
+
+// Blanks out boneyard comments while keeping line numbers stable
+const stripBoneyard = (text: string) => text.replace(/\/\*[\s\S]*?\*\//g, match => match.replace(/[^\n]/g, ''));
+
+/**
+ * FOUNTAIN PARSER: Maps a Fountain screenplay onto scenes.
+ * Each scene heading starts a scene; action lines feed `visualPrompt`, the heading plus
+ * dialogue feed `narrativeContext`. A synopsis (`= ...`) overrides the narrative context
+ * and an `[[Image: url]]` note sets `imageUrl`, which is how exported files round-trip.
+ * Dialogue and `[[Narration: text]]` notes become the scene's captions, in order.
+ * A transition (`DISSOLVE TO:`) between two scenes becomes the next scene's `transitionIn`.
+ */
+export const parseFountain = (rawText: string): ScriptParseResult & { title?: string } => {
+  const errors: ScriptParseIssue[] = [];
+  const drafts: SceneDraft[] = [];
+  const lines = stripBoneyard(rawText.replace(/\r\n?/g, '\n')).split('\n');
+  let title: string | undefined;
+  let index = 0;
+
+  // Title page: key/value block at the very top, ended by the first blank line
+  if (TITLE_PAGE_KEY.test(lines[0]?.trim() || '')) {
+    for (; index < lines.length && lines[index].trim(); index++) {
+      const match = lines[index].match(/^Title\s*:\s*(.*)$/i);
+      if (match) title = match[1].trim() || undefined;
+    }
+  }
+
+  let speaker: DialogueLine | null = null;
+  let pendingParenthetical: string | undefined;
+  let pendingTransition: SceneTransition | undefined;
+
+  for (; index < lines.length; index++) {
+    const lineNumber = index + 1;
+    const raw = lines[index];
+    const trimmed = raw.trim();
+    const previousBlank = index === 0 || !lines[index - 1].trim();
+    const nextBlank = index + 1 >= lines.length || !lines[index + 1].trim();
+    const current = drafts[drafts.length - 1];
+
+    if (!trimmed) {
+      speaker = null;
+      pendingParenthetical = undefined;
+      continue;
+    }
+
+    const image = trimmed.match(IMAGE_NOTE);
+    if (image) {
+      if (current) current.imageUrl = image[1];
+      else errors.push({ line: lineNumber, message: `Image note before the first scene heading.` });
+      continue;
+    }
+
+    const narration = trimmed.match(NARRATION_NOTE);
+    if (narration) {
+      if (current) current.spoken.push(narration[1]);
+      else errors.push({ line: lineNumber, message: `Narration note before the first scene heading.` });
+      continue;
+    }
+
+    const line = trimmed.replace(NOTE, '').trim();
+    if (!line || line.startsWith('#') || /^={3,}$/.test(line)) continue;
+
+    if (line.startsWith('=')) {
+      if (current) current.synopsis.push(line.slice(1).trim());
+      continue;
+    }
+
+    if (previousBlank && (SCENE_HEADING.test(line) || FORCED_HEADING.test(line))) {
+      const heading = line.replace(/^\./, '').replace(SCENE_NUMBER, '').trim();
+      drafts.push({ line: lineNumber, heading, action: [], synopsis: [], dialogue: [], spoken: [], transitionIn: pendingTransition });
+      pendingTransition = undefined;
+      continue;
+    }
+
+    if (speaker) {
+      if (/^\(.*\)$/.test(line)) {
+        pendingParenthetical = line.slice(1, -1).trim();
+      } else if (!speaker.text) {
+        speaker.text = stripEmphasis(line);
+        speaker.parenthetical = pendingParenthetical;
+        pendingParenthetical = undefined;
+      } else if (!pendingParenthetical) {
+        speaker.text = `${speaker.text} ${stripEmphasis(line)}`;
+      } else {
+        // A parenthetical mid-speech starts a new beat for the same character
+        speaker = { character: speaker.character, parenthetical: pendingParenthetical, text: stripEmphasis(line) };
+        pendingParenthetical = undefined;
+        current.dialogue.push(speaker);
+        current.spoken.push(speaker);
+      }
+      continue;
+    }
+
+    if (previousBlank && nextBlank && (TRANSITION.test(line) || (line.startsWith('>') && !line.endsWith('<')))) {
+      // Transitions before the first scene ("FADE IN:") have nothing to cut from
+      if (current) pendingTransition = parseTransition(line.replace(/^>/, ''));
+      continue;
+    }
+
+    if (!current) {
+      errors.push({ line: lineNumber, message: `Text before the first scene heading. Add one such as "INT. OFFICE - DAY".` });
+      continue;
+    }
+
+    if (previousBlank && !nextBlank && !line.startsWith('!') && isCharacterCue(line)) {
+      const character = line.replace(/^@/, '').replace(/\^$/, '').trim();
+      speaker = { character, text: '' };
+      current.dialogue.push(speaker);
+      current.spoken.push(speaker);
+      continue;
+    }
+
+    const action = line.replace(/^!/, '').replace(/^>\s*(.*?)\s*<$/, '$1').replace(/^~/, '');
+    current.action.push(stripEmphasis(action));
+  }
+
+  if (drafts.length === 0 && errors.length === 0) {
+    errors.push({ line: 1, message: `No scene headings found. Start scenes with "INT." / "EXT." or force one with ".".` });
+  }
+
+  const scenes: ScriptScene[] = drafts.map((draft, i) => {
+    const dialogue = draft.dialogue.filter(d => d.text);
+    const spoken = draft.spoken.filter(line => typeof line === 'string' || line.text);
+    if (draft.action.length === 0) {
+      errors.push({ line: draft.line, message: `Scene "${draft.heading}" has no action lines to use as the visual prompt.` });
+    }
+
+    const lines = dialogue.map(d => `${d.character}${d.parenthetical ? ` (${d.parenthetical})` : ''}: ${d.text}`);
+    return {
+      id: i + 1,
+      title: draft.heading,
+      visualPrompt: draft.action.join(' '),
+      narrativeContext: draft.synopsis.length > 0 ? draft.synopsis.join(' ') : [`${draft.heading}.`, ...lines].join(' '),
+      dialogue: dialogue.length > 0 ? dialogue : undefined,
+      // Cue extensions like "(V.O.)" are for the page, not the caption
+      captions: spoken.length > 0
+        ? spoken.map(line => typeof line === 'string' ? { text: line } : { speaker: captionSpeaker(line.character), text: line.text })
+        : undefined,
+      imageUrl: draft.imageUrl,
+      transitionIn: draft.transitionIn,
+      status: SceneStatus.IDLE
+    };
+  });
+
+  errors.sort((a, b) => a.line - b.line);
+  return { scenes, errors, title };
+};
+
+// Escapes action text that Fountain would otherwise read as a heading or character cue
+const asAction = (text: string) =>
+  SCENE_HEADING.test(text) || FORCED_HEADING.test(text) || isCharacterCue(text) || /^[=#@~>.\[]/.test(text)
+    ? `!${text}`
+    : text;
+
+// The spoken lines to write for a scene. Captions are what the user edits, so they win; each one
+// keeps the cue extension and parenthetical of the dialogue line it came from, if it still matches.
+const spokenLines = (scene: ScriptScene): (DialogueLine | string)[] => {
+  if (!scene.captions) return scene.dialogue ?? [];
+  const dialogue = [...(scene.dialogue ?? [])];
+  return scene.captions.map(caption => {
+    const text = caption.text.replace(/\s*\n\s*/g, ' ');
+    if (!caption.speaker) return text;
+    const match = dialogue.findIndex(d => captionSpeaker(d.character) === caption.speaker && d.text === text);
+    return match === -1 ? { character: caption.speaker, text } : dialogue.splice(0, match + 1)[match];
+  });
+};
+
+/**
+ * FOUNTAIN EXPORT: Writes scenes back out as a `.fountain` document for `parseFountain`. Headings,
+ * action, synopses, image URLs, transitions, dialogue and captions (narration as `[[Narration: ...]]`
+ * notes) round-trip; emphasis, scene numbers and notes of the original file are not kept.
+ */
+export const exportFountain = (scenes: ScriptScene[], title?: string): string => {
+  const blocks: string[] = [];
+  if (title) blocks.push(`Title: ${title}`);
+
+  scenes.forEach((scene, i) => {
+    if (scene.transitionIn && i > 0) {
+      const transition = toScreenplayTransition(scene.transitionIn);
+      blocks.push(TRANSITION.test(transition) ? transition : `> ${transition}`);
+    }
+
+    const heading = SCENE_HEADING.test(scene.title) ? scene.title : `.${scene.title}`;
+    blocks.push(heading);
+
+    const meta = scene.narrativeContext
+      .split('\n')
+      .filter(line => line.trim())
+      .map(line => `= ${line.trim()}`);
+    if (scene.imageUrl) meta.push(`[[Image: ${scene.imageUrl}]]`);
+    if (meta.length > 0) blocks.push(meta.join('\n'));
+
+    const action = scene.visualPrompt
+      .split('\n')
+      .filter(line => line.trim())
+      .map(line => asAction(line.trim()));
+    if (action.length > 0) blocks.push(action.join('\n'));
+
+    for (const line of spokenLines(scene)) {
+      if (typeof line === 'string') {
+        blocks.push(`[[Narration: ${line}]]`);
+        continue;
+      }
+      const cue = /[a-z]/.test(line.character) ? `@${line.character}` : line.character;
+      blocks.push([cue, line.parenthetical ? `(${line.parenthetical})` : null, line.text].filter(Boolean).join('\n'));
+    }
+  });
+
+  return `${blocks.join('\n\n')}\n`;
+};
@@ -0,0 +1,45 @@
+import { fetchClip } from "./geminiService";
+
+// How far before the end to grab the "last" frame; seeking to the exact end can yield a blank frame
+const END_OFFSET_SECONDS = 0.05;
+
+const seek = (video: HTMLVideoElement, seconds: number) => new Promise<void>((resolve, reject) => {
+  video.onseeked = () => resolve();
+  video.onerror = () => reject(new Error('Could not seek to the last frame.'));
+  video.currentTime = seconds;
+});
+
+/**
+ * Grabs the final frame of a clip as base64 PNG (no data: prefix), the same shape as Stage Hand
+ * frames. The clip is downloaded into an object URL first so drawing it doesn't taint the canvas.
+ */
+export const extractLastFrame = async (videoUri: string, signal?: AbortSignal): Promise<string> => {
+  const response = await fetchClip(videoUri, signal);
+  if (!response.ok) throw new Error(`Could not download clip (${response.statusText}).`);
+  const objectUrl = URL.createObjectURL(await response.blob());
+
+  try {
+    const video = document.createElement('video');
+    video.preload = 'auto';
+    video.muted = true;
+    video.src = objectUrl;
+    await new Promise<void>((resolve, reject) => {
+      video.onloadedmetadata = () => resolve();
+      video.onerror = () => reject(new Error('Clip could not be decoded.'));
+    });
+
+    // Recorded WebM clips (e.g. offline mock takes) report no duration until played through;
+    // seeking far past the end makes the browser work it out
+    if (!Number.isFinite(video.duration)) await seek(video, Number.MAX_SAFE_INTEGER);
+    await seek(video, Math.max(0, video.duration - END_OFFSET_SECONDS));
+    signal?.throwIfAborted();
+
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    canvas.getContext('2d')!.drawImage(video, 0, 0);
+    return canvas.toDataURL('image/png').split(',')[1];
+  } finally {
+    URL.revokeObjectURL(objectUrl);
+  }
+};
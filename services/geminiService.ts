@@ -1,23 +1,86 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { ScriptScene, AgentLog, AgentRole } from "../types";
+import { GoogleGenAI, Type, GenerateVideosOperation } from "@google/genai";
+import { 
+  ScriptScene, 
+  AgentLog, 
+  AgentRole, 
+  ContinuityResult, 
+  ContinuityMode,
+  ContinuityFinding,
+  ContinuityCategory,
+  ContinuitySeverity,
+  VideoResult, 
+  GenerationProvider, 
+  GenerationConfig,
+  BibleEntry,
+  BibleEntryKind,
+  GenerationErrorKind,
+  PromptLint,
+  PromptRiskCategory,
+  ProviderId,
+  ProviderModels,
+  SceneStatus,
+  TransitionType
+} from "../types";
+import { GenerationError, runOperation, VIDEO_OPERATION_POLICY } from "./operations";
+import { DEFAULT_TRANSITION_MS } from "./transitions";
+import { redact, reportExchange } from "./trace";
 
-// Helper to get client safely
-const getClient = async () => {
+export const GEMINI_MODELS: ProviderModels = {
+  text: 'gemini-2.5-flash',
+  image: 'gemini-2.5-flash-image',
+  video: 'veo-3.1-fast-generate-preview',
+  videoExtension: 'veo-3.1-generate-preview'
+};
+
+// Veo clip URIs point at the Gemini API, which wants the API key on downloads too
+const GEMINI_API_HOST = 'generativelanguage.googleapis.com';
+
+const getApiKey = async (): Promise<string | undefined> => {
   let apiKey = process.env.API_KEY;
   
   // Attempt to retrieve from window.aistudio (Project IDX / AI Studio environment)
   if (!apiKey && typeof window !== 'undefined' && (window as any).aistudio) {
       apiKey = await (window as any).aistudio.getApiKey();
   }
+  return apiKey;
+};
 
+// Helper to get client safely
+const getClient = async () => {
+  const apiKey = await getApiKey();
   if (!apiKey) throw new Error("API Key not found");
   return new GoogleGenAI({ apiKey });
 };
 
+/**
+ * Downloads a clip. Veo clips are served by the Gemini API and get the API key; other URIs
+ * (blob:, data:, offline mock takes) are fetched as they are, so the key never leaves for them.
+ */
+export const fetchClip = async (uri: string, signal?: AbortSignal): Promise<Response> => {
+  const isGemini = /^https:/.test(uri) && new URL(uri).hostname === GEMINI_API_HOST;
+  const apiKey = isGemini ? await getApiKey() : undefined;
+  return fetch(uri, { signal, headers: apiKey ? { 'x-goog-api-key': apiKey } : undefined });
+};
+
+// A response as recorded on its trace span, with image and video bytes left out
+const rawReply = (response: unknown) => JSON.stringify(redact(response));
+
+/**
+ * Checks whether a Gemini API key is available, either from the environment
+ * or from the AI Studio key picker.
+ */
+export const hasGeminiApiKey = async (): Promise<boolean> => {
+  if (process.env.API_KEY) return true;
+
+  // Cast to any to avoid TS errors if definitions are missing or incorrect
+  const aistudio = typeof window !== 'undefined' ? (window as any).aistudio : undefined;
+  return Boolean(aistudio && await aistudio.hasSelectedApiKey());
+};
+
 /**
  * PARSER AGENT: Converts raw markdown script into structured JSON scenes.
  */
-export const parseScriptWithGemini = async (rawText: string): Promise<ScriptScene[]> => {
+export const parseScriptWithGemini = async (rawText: string, signal?: AbortSignal): Promise<ScriptScene[]> => {
   const ai = await getClient();
   
   const prompt = `
@@ -30,15 +93,22 @@ export const parseScriptWithGemini = async (rawText: string): Promise<ScriptScen
     2. A highly descriptive 'visualPrompt' optimized for an AI Video Generator (Veo). Describe the lighting, camera angle, subject appearance, and action.
     3. The 'narrativeContext' (what is happening in the story).
     4. An 'imageUrl' if a link to an image is explicitly provided in the scene description (optional).
+    5. A 'transition' suggesting how to cut into this scene from the previous one (optional): CUT for continuous
+       action, MATCH_CUT when the framing or motion rhymes with the previous shot, CROSS_DISSOLVE for a passage of time,
+       DIP_TO_BLACK / DIP_TO_WHITE for a change of location or mood, WIPE for a playful scene change.
+    6. 'captions': every spoken line and narration in the scene, in order, as the viewer should read it.
+       Give the 'speaker' name for dialogue; leave it out for narration.
 
     Script:
     ${rawText}
   `;
 
+  reportExchange(signal, { prompt });
   const response = await ai.models.generateContent({
-    model: "gemini-2.5-flash",
+    model: GEMINI_MODELS.text,
     contents: prompt,
     config: {
+      abortSignal: signal,
       responseMimeType: "application/json",
       responseSchema: {
         type: Type.ARRAY,
@@ -48,31 +118,49 @@ export const parseScriptWithGemini = async (rawText: string): Promise<ScriptScen
             title: { type: Type.STRING },
             visualPrompt: { type: Type.STRING },
             narrativeContext: { type: Type.STRING },
-            imageUrl: { type: Type.STRING, nullable: true }
+            imageUrl: { type: Type.STRING, nullable: true },
+            transition: { type: Type.STRING, enum: Object.values(TransitionType), nullable: true },
+            captions: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  speaker: { type: Type.STRING, nullable: true },
+                  text: { type: Type.STRING }
+                },
+                required: ["text"]
+              }
+            }
           },
           required: ["title", "visualPrompt", "narrativeContext"]
         }
       }
     }
   });
+  reportExchange(signal, { response: rawReply(response) });
 
   const parsed = JSON.parse(response.text || "[]");
-  return parsed.map((item: any, index: number) => ({
+  return parsed.map(({ transition, captions, ...item }: any, index: number) => ({
     id: index + 1,
     ...item,
-    status: 'IDLE'
+    captions: captions?.length ? captions.map((c: any) => ({ speaker: c.speaker || undefined, text: c.text })) : undefined,
+    // The first scene has nothing to cut from
+    transitionIn: transition && index > 0 ? { type: transition, durationMs: DEFAULT_TRANSITION_MS[transition as TransitionType] } : undefined,
+    status: SceneStatus.IDLE
   }));
 };
 
 /**
- * CONTINUITY AGENT: Analyzes if the next scene should extend the previous one.
+ * CONTINUITY AGENT: Decides how the next scene picks up from the previous one: extend the clip,
+ * start a new clip from its last frame, or cut to a fresh shot.
  */
 export const checkContinuity = async (
   currentScene: ScriptScene, 
-  previousScene: ScriptScene | null
-): Promise<{ shouldExtend: boolean; reasoning: string }> => {
+  previousScene: ScriptScene | null,
+  signal?: AbortSignal
+): Promise<ContinuityResult> => {
   if (!previousScene) {
-    return { shouldExtend: false, reasoning: "First scene, nothing to extend." };
+    return { mode: ContinuityMode.FRESH_SHOT, reasoning: "First scene, nothing to extend." };
   }
 
   const ai = await getClient();
@@ -86,46 +174,273 @@ export const checkContinuity = async (
     Current Scene Context: "${currentScene.narrativeContext}"
     Current Visual: "${currentScene.visualPrompt}"
     
-    Determine if the Current Scene is a direct temporal continuation of the Previous Scene (meaning we should EXTEND the previous video clip) or if it is a new shot/cut.
-    
-    If it's a completely different angle, location, or time, do NOT extend.
-    If it's the same continuous shot just moving forward in time, return true.
+    Choose how the Current Scene picks up from the Previous Scene:
+    - EXTEND: the same continuous shot just moving forward in time. The previous video clip is extended.
+    - MATCH_LAST_FRAME: a new shot in the same place and moment (same room, same characters, same lighting), e.g. a new action or a camera move. The new clip starts from the last frame of the previous clip.
+    - FRESH_SHOT: a completely different angle, location, or time. A new start frame is generated from scratch.
   `;
 
+  reportExchange(signal, { prompt });
   const response = await ai.models.generateContent({
-    model: "gemini-2.5-flash",
+    model: GEMINI_MODELS.text,
     contents: prompt,
     config: {
+      abortSignal: signal,
       responseMimeType: "application/json",
       responseSchema: {
         type: Type.OBJECT,
         properties: {
-          shouldExtend: { type: Type.BOOLEAN },
+          mode: { type: Type.STRING, enum: Object.values(ContinuityMode) },
           reasoning: { type: Type.STRING }
         },
-        required: ["shouldExtend", "reasoning"]
+        required: ["mode", "reasoning"]
+      }
+    }
+  });
+  reportExchange(signal, { response: rawReply(response) });
+
+  return JSON.parse(response.text || `{"mode": "${ContinuityMode.FRESH_SHOT}", "reasoning": "Parse error"}`);
+};
+
+/**
+ * CONTINUITY AGENT (VISUAL): Compares the previous clip's last frame with the candidate start
+ * frame and lists concrete mismatches. Differences the script calls for are not findings.
+ */
+export const inspectContinuity = async (
+  previousFrameBase64: string,
+  startFrameBase64: string,
+  currentScene: ScriptScene,
+  previousScene: ScriptScene,
+  signal?: AbortSignal
+): Promise<ContinuityFinding[]> => {
+  const ai = await getClient();
+
+  const prompt = `
+    You are a Continuity QA Agent for video production, checking a cut between two shots.
+    The first image is the last frame of the previous shot. The second image is the planned first frame of the next shot.
+
+    Previous Scene: "${previousScene.visualPrompt}" (${previousScene.narrativeContext})
+    Next Scene: "${currentScene.visualPrompt}" (${currentScene.narrativeContext})
+
+    List every concrete continuity mismatch between the two frames in these categories:
+    - WARDROBE: clothing, accessories, hair or makeup of the same character.
+    - PROPS: objects that appear, disappear, move or change.
+    - LIGHTING: time of day, light direction, color temperature, contrast.
+    - SET: architecture, set dressing, location details.
+
+    Ignore differences the scene descriptions call for (a new location, a time jump, a costume change).
+    Rate each finding LOW (only visible on close inspection), MEDIUM (visible on the cut) or HIGH (breaks the cut).
+    Return an empty list if the frames match.
+  `;
+
+  reportExchange(signal, { prompt });
+  const response = await ai.models.generateContent({
+    model: GEMINI_MODELS.text,
+    contents: {
+      parts: [
+        { inlineData: { data: previousFrameBase64, mimeType: 'image/png' } },
+        { inlineData: { data: startFrameBase64, mimeType: 'image/png' } },
+        { text: prompt }
+      ]
+    },
+    config: {
+      abortSignal: signal,
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            category: { type: Type.STRING, enum: Object.values(ContinuityCategory) },
+            severity: { type: Type.STRING, enum: Object.values(ContinuitySeverity) },
+            description: { type: Type.STRING }
+          },
+          required: ["category", "severity", "description"]
+        }
       }
     }
   });
+  reportExchange(signal, { response: rawReply(response) });
 
-  return JSON.parse(response.text || '{"shouldExtend": false, "reasoning": "Parse error"}');
+  return JSON.parse(response.text || "[]");
+};
+
+/**
+ * PARSER AGENT (BIBLE): Extracts recurring characters and locations with a canonical look.
+ */
+export const extractBibleWithGemini = async (scenes: ScriptScene[], signal?: AbortSignal): Promise<BibleEntry[]> => {
+  const ai = await getClient();
+
+  const prompt = `
+    You are the Script Parsing Agent, now building a continuity bible.
+    From the scenes below, list the characters and locations that appear in more than one scene.
+
+    For each one, provide:
+    1. 'kind': CHARACTER or LOCATION.
+    2. 'name': the name used most often in the script.
+    3. 'aliases': any other names the script uses for it (may be empty).
+    4. 'description': one canonical visual description to reuse in every shot. For characters: age, build, face, hair, wardrobe. For locations: architecture, set dressing, lighting, color palette.
+
+    Scenes:
+    ${scenes.map(s => `Scene ${s.id} (${s.title}): ${s.visualPrompt} | ${s.narrativeContext}`).join('\n    ')}
+  `;
+
+  reportExchange(signal, { prompt });
+  const response = await ai.models.generateContent({
+    model: GEMINI_MODELS.text,
+    contents: prompt,
+    config: {
+      abortSignal: signal,
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            kind: { type: Type.STRING, enum: [BibleEntryKind.CHARACTER, BibleEntryKind.LOCATION] },
+            name: { type: Type.STRING },
+            aliases: { type: Type.ARRAY, items: { type: Type.STRING } },
+            description: { type: Type.STRING }
+          },
+          required: ["kind", "name", "aliases", "description"]
+        }
+      }
+    }
+  });
+  reportExchange(signal, { response: rawReply(response) });
+
+  const parsed = JSON.parse(response.text || "[]");
+  return parsed.map((item: any) => ({
+    id: crypto.randomUUID(),
+    ...item
+  }));
+};
+
+/**
+ * SAFETY AGENT (PRE-FLIGHT): Flags what in a visual prompt Veo or the image model is likely to
+ * refuse, and suggests a compliant rewrite that keeps the shot.
+ */
+export const lintPrompt = async (visualPrompt: string, signal?: AbortSignal): Promise<PromptLint> => {
+  const ai = await getClient();
+
+  const prompt = `
+    You are a Safety QA Agent for video production. The visual prompt below is about to be sent to Veo and an image model,
+    which refuse prompts that break their usage policies.
+
+    List every part of the prompt that is likely to be refused:
+    - REAL_PERSON: a real, identifiable person (celebrities, politicians, public figures), by name or likeness.
+    - BRAND: a trademarked brand, logo, product or character.
+    - VIOLENCE: graphic violence, gore, weapons used on people, self-harm.
+    - OTHER: anything else against the usage policies (sexual content, minors at risk, hate symbols, dangerous acts).
+
+    Quote the risky words as 'excerpt' exactly as they appear, and give a short 'reason'.
+    If there are risks, add a 'suggestedPrompt': the whole prompt rewritten so it complies, keeping the framing,
+    lighting, action and mood (e.g. "a silver-haired TV host" instead of a real name, "a cola can" instead of a brand).
+    Return an empty list of risks if the prompt is fine.
+
+    Visual prompt: "${visualPrompt}"
+  `;
+
+  reportExchange(signal, { prompt });
+  const response = await ai.models.generateContent({
+    model: GEMINI_MODELS.text,
+    contents: prompt,
+    config: {
+      abortSignal: signal,
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          risks: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                category: { type: Type.STRING, enum: Object.values(PromptRiskCategory) },
+                excerpt: { type: Type.STRING },
+                reason: { type: Type.STRING }
+              },
+              required: ["category", "excerpt", "reason"]
+            }
+          },
+          suggestedPrompt: { type: Type.STRING }
+        },
+        required: ["risks"]
+      }
+    }
+  });
+  reportExchange(signal, { response: rawReply(response) });
+
+  const { risks = [], suggestedPrompt } = JSON.parse(response.text || '{"risks": []}');
+  return { prompt: visualPrompt, risks, suggestedPrompt: risks.length > 0 ? suggestedPrompt : undefined };
+};
+
+/**
+ * SAFETY AGENT (REWRITE): Rewrites a visual prompt a safety filter refused, keeping the shot.
+ */
+export const rewritePrompt = async (visualPrompt: string, reason: string, signal?: AbortSignal): Promise<string> => {
+  const ai = await getClient();
+
+  const prompt = `
+    You are a Safety QA Agent for video production. A video or image model refused the visual prompt below.
+    Rejection: "${reason}"
+
+    Rewrite the prompt so it complies with the usage policies: describe real people by look instead of name,
+    replace brands with generic products, and imply violence instead of showing it.
+    Keep the framing, lighting, setting, characters, action and mood. Reply with the rewritten prompt only.
+
+    Visual prompt: "${visualPrompt}"
+  `;
+
+  reportExchange(signal, { prompt });
+  const response = await ai.models.generateContent({
+    model: GEMINI_MODELS.text,
+    contents: prompt,
+    config: { abortSignal: signal }
+  });
+  reportExchange(signal, { response: rawReply(response) });
+
+  const rewritten = response.text?.trim();
+  if (!rewritten) throw new Error("Safety QA returned no rewrite.");
+  return rewritten;
 };
 
 /**
  * STAGE HAND AGENT: Generates a starting frame using Gemini Flash Image (Nano Banana).
  */
-export const generateStageHandImage = async (visualPrompt: string): Promise<string> => {
+export const generateStageHandImage = async (
+  visualPrompt: string,
+  config: GenerationConfig,
+  referenceImages: string[],
+  signal?: AbortSignal
+): Promise<string> => {
   const ai = await getClient();
   
+  // Bible reference images go first so the model treats them as identity references
+  const referenceParts = referenceImages.map(data => ({ inlineData: { data, mimeType: 'image/png' } }));
+  const instruction = referenceImages.length > 0
+    ? `Using the reference images above for the recurring characters and locations, generate`
+    : `Generate`;
+
+  const prompt = `${instruction} a high quality, photorealistic, cinematic movie frame based on this description: ${visualPrompt}`;
+
   // Using nano banana series for image generation as requested
+  reportExchange(signal, { prompt });
   const response = await ai.models.generateContent({
-    model: 'gemini-2.5-flash-image',
+    model: GEMINI_MODELS.image,
     contents: {
       parts: [
-        { text: `Generate a high quality, photorealistic, cinematic movie frame based on this description: ${visualPrompt}` },
+        ...referenceParts,
+        { text: prompt },
       ],
     },
+    config: {
+      abortSignal: signal,
+      // Match the video framing so the start frame isn't cropped by Veo
+      imageConfig: { aspectRatio: config.aspectRatio },
+    },
   });
+  reportExchange(signal, { response: rawReply(response) });
 
   let base64Data = '';
   
@@ -138,6 +453,16 @@ export const generateStageHandImage = async (visualPrompt: string): Promise<stri
   }
 
   if (!base64Data) {
+    // Refusals come back as an empty response with a block or finish reason, not as an error
+    const blockReason = response.promptFeedback?.blockReason;
+    const finishReason = response.candidates?.[0]?.finishReason;
+    if (blockReason || /SAFETY|PROHIBITED|BLOCKLIST|SPII/.test(finishReason ?? '')) {
+      throw new GenerationError(
+        `The image model refused the prompt (${blockReason ?? finishReason}).`,
+        GenerationErrorKind.SAFETY,
+        { blockReason, finishReason }
+      );
+    }
     throw new Error("Stage Hand failed to generate an image.");
   }
 
@@ -147,9 +472,9 @@ export const generateStageHandImage = async (visualPrompt: string): Promise<stri
 /**
  * HELPER: Fetch image from URL and convert to Base64
  */
-export const fetchImageAsBase64 = async (url: string): Promise<string> => {
+export const fetchImageAsBase64 = async (url: string, signal?: AbortSignal): Promise<string> => {
   try {
-    const response = await fetch(url);
+    const response = await fetch(url, { signal });
     if (!response.ok) throw new Error(`Failed to fetch image: ${response.statusText}`);
     const blob = await response.blob();
     return new Promise((resolve, reject) => {
@@ -162,6 +487,7 @@ export const fetchImageAsBase64 = async (url: string): Promise<string> => {
       reader.readAsDataURL(blob);
     });
   } catch (error) {
+    if (signal?.aborted) throw error;
     throw new Error(`Stage Hand could not retrieve reference image: ${error}`);
   }
 };
@@ -174,106 +500,136 @@ export const generateVeoVideo = async (
   previousSceneVideoHandle: any | undefined,
   shouldExtend: boolean,
   imageBase64: string | undefined, // New: Input image for Veo
-  logCallback: (log: AgentLog) => void
-): Promise<{ uri: string; handle: any }> => {
+  config: GenerationConfig,
+  logCallback: (log: AgentLog) => void,
+  signal?: AbortSignal
+): Promise<VideoResult> => {
   const ai = await getClient();
   
   // Veo logic: 
-  // - If extending: Must use 'veo-3.1-generate-preview' (720p).
+  // - If extending: Must use 'veo-3.1-generate-preview' (720p). The Director already sets
+  //   extensions to 720p (see extensionConfig); the config is passed through unchanged here.
   // - If image input: Can use fast or generate-preview. We'll use fast for speed unless extending.
   // - Note: You cannot usually extend AND provide a new reference image as the 'start' frame easily in one go 
   //   without advanced config, so we will prioritize extension logic if shouldExtend is true.
   
-  const model = shouldExtend ? 'veo-3.1-generate-preview' : 'veo-3.1-fast-generate-preview';
-  
-  logCallback({
+  const model = shouldExtend ? GEMINI_MODELS.videoExtension : GEMINI_MODELS.video;
+
+  const log = (message: string, status: AgentLog['status'], metadata?: Record<string, any>) => logCallback({
     id: crypto.randomUUID(),
     timestamp: new Date(),
     role: AgentRole.GENERATOR,
-    status: 'thinking',
-    message: `Initializing Veo task for Scene ${scene.id}... Model: ${model}`
+    status,
+    message,
+    metadata
   });
+  
+  // Pick the seed ourselves so every take records what it was generated with
+  const seed = Math.floor(Math.random() * 2 ** 32);
 
-  let operation;
+  log(`Initializing Veo task for Scene ${scene.id}... Model: ${model} (${config.resolution}, ${config.aspectRatio}, seed ${seed})`, 'thinking');
 
-  try {
+  const submit = () => {
+    reportExchange(signal, { prompt: scene.visualPrompt });
     if (shouldExtend && previousSceneVideoHandle) {
-      logCallback({
-        id: crypto.randomUUID(),
-        timestamp: new Date(),
-        role: AgentRole.GENERATOR,
-        status: 'thinking',
-        message: `Extending previous clip for continuity...`
-      });
+      log(`Scene ${scene.id}: Extending previous clip for continuity...`, 'thinking');
 
-      operation = await ai.models.generateVideos({
-        model: 'veo-3.1-generate-preview', 
+      return ai.models.generateVideos({
+        model: GEMINI_MODELS.videoExtension,
         prompt: scene.visualPrompt,
         video: previousSceneVideoHandle,
         config: {
+          abortSignal: signal,
           numberOfVideos: 1,
-          resolution: '720p',
-          aspectRatio: '16:9'
+          resolution: config.resolution,
+          aspectRatio: config.aspectRatio,
+          seed
         }
       });
-    } else {
-      // Standard generation (Text-to-Video OR Image-to-Video)
-      const request: any = {
-        model: 'veo-3.1-fast-generate-preview',
-        prompt: scene.visualPrompt,
-        config: {
-          numberOfVideos: 1,
-          resolution: '1080p',
-          aspectRatio: '16:9'
-        }
-      };
+    }
 
-      // Add image if available
-      if (imageBase64) {
-         logCallback({
-            id: crypto.randomUUID(),
-            timestamp: new Date(),
-            role: AgentRole.GENERATOR,
-            status: 'info',
-            message: `Applying Stage Hand reference image to generation...`
-          });
-        request.image = {
-          imageBytes: imageBase64,
-          mimeType: 'image/png' // Assuming PNG from generation or generic valid type
-        };
+    // Standard generation (Text-to-Video OR Image-to-Video)
+    const request: any = {
+      model: GEMINI_MODELS.video,
+      prompt: scene.visualPrompt,
+      config: {
+        abortSignal: signal,
+        numberOfVideos: 1,
+        resolution: config.resolution,
+        aspectRatio: config.aspectRatio,
+        seed
       }
+    };
 
-      operation = await ai.models.generateVideos(request);
+    // Add image if available
+    if (imageBase64) {
+      log(`Scene ${scene.id}: Applying Stage Hand reference image to generation...`, 'info');
+      request.image = {
+        imageBytes: imageBase64,
+        mimeType: 'image/png' // Assuming PNG from generation or generic valid type
+      };
     }
 
-    logCallback({
-        id: crypto.randomUUID(),
-        timestamp: new Date(),
-        role: AgentRole.GENERATOR,
-        status: 'thinking',
-        message: `Task submitted to Google Cloud. Polling for completion... (This may take 1-2 minutes)`
-    });
-
-    // Polling loop
-    while (!operation.done) {
-      await new Promise(resolve => setTimeout(resolve, 5000)); // Poll every 5s
-      operation = await ai.operations.getVideosOperation({ operation: operation });
-    }
+    return ai.models.generateVideos(request);
+  };
 
-    if (operation.error) {
-        throw new Error(operation.error.message || "Unknown Veo Error");
-    }
+  return runOperation<GenerateVideosOperation, VideoResult>(
+    {
+      submit,
+      refresh: (operation) => ai.operations.getVideosOperation({ operation, config: { abortSignal: signal } }),
+      isDone: (operation) => Boolean(operation.done),
+      complete: (operation) => {
+        reportExchange(signal, { response: rawReply(operation) });
+        if (operation.error) {
+          // Operation errors carry a gRPC status code, which classifyError understands
+          throw Object.assign(new Error(String(operation.error.message || "Unknown Veo Error")), { code: operation.error.code });
+        }
 
-    const videoUri = operation.response?.generatedVideos?.[0]?.video?.uri;
-    const videoHandle = operation.response?.generatedVideos?.[0]?.video;
+        const { generatedVideos, raiMediaFilteredCount, raiMediaFilteredReasons } = operation.response ?? {};
+        if (!generatedVideos?.length && raiMediaFilteredCount) {
+          throw new GenerationError(
+            `Veo filtered the clip: ${raiMediaFilteredReasons?.join(' ') || 'safety policy'}`,
+            GenerationErrorKind.SAFETY,
+            { raiMediaFilteredCount, raiMediaFilteredReasons }
+          );
+        }
 
-    if (!videoUri) {
-        throw new Error("No video URI returned from Veo");
+        const videoHandle = generatedVideos?.[0]?.video;
+        if (!videoHandle?.uri) {
+          throw new Error("No video URI returned from Veo");
+        }
+        return { uri: videoHandle.uri, handle: videoHandle, seed };
+      }
+    },
+    VIDEO_OPERATION_POLICY,
+    {
+      signal,
+      onSubmitted: (attempt) => log(
+        `Scene ${scene.id}: Task submitted to Google Cloud${attempt > 1 ? ` (attempt ${attempt})` : ''}. Polling for completion... (This may take 1-2 minutes)`,
+        'thinking',
+        { attempt }
+      ),
+      onRetry: (error, attempt, delayMs) => log(
+        `Scene ${scene.id}: ${error.kind.toLowerCase()} failure (${error.message}). Retrying in ${Math.round(delayMs / 1000)}s...`,
+        'warning',
+        { kind: error.kind, attempt, delayMs, ...error.metadata }
+      )
     }
+  );
+};
 
-    return { uri: videoUri, handle: videoHandle };
-
-  } catch (e: any) {
-    throw new Error(e.message || "Failed to generate video");
-  }
-};
\ No newline at end of file
+export const geminiProvider: GenerationProvider = {
+  id: ProviderId.GEMINI,
+  label: 'Google Gemini + Veo',
+  models: GEMINI_MODELS,
+  isReady: hasGeminiApiKey,
+  parseScript: parseScriptWithGemini,
+  extractBible: extractBibleWithGemini,
+  checkContinuity,
+  inspectContinuity,
+  lintPrompt,
+  rewritePrompt,
+  generateStageHandImage,
+  fetchImageAsBase64,
+  generateVideo: generateVeoVideo
+};
@@ -0,0 +1,68 @@
+import { GenerationConfig, ScriptScene } from "../types";
+
+export const RESOLUTIONS: GenerationConfig['resolution'][] = ['720p', '1080p'];
+export const ASPECT_RATIOS: GenerationConfig['aspectRatio'][] = ['16:9', '9:16'];
+
+export const DEFAULT_GENERATION_CONFIG: GenerationConfig = {
+  resolution: '1080p',
+  aspectRatio: '16:9'
+};
+
+// Veo 3.1 can only extend clips at 720p, and an extension inherits the source clip's framing
+export const EXTENSION_RESOLUTION: GenerationConfig['resolution'] = '720p';
+
+/**
+ * Merges a scene's overrides on top of the production settings.
+ */
+export const resolveSceneConfig = (production: GenerationConfig, scene: ScriptScene): GenerationConfig => ({
+  ...production,
+  ...scene.generationOverrides
+});
+
+/**
+ * The settings an extension is rendered with: the production resolution only applies to fresh
+ * shots, extensions always come out at the model's extension resolution.
+ */
+export const extensionConfig = (config: GenerationConfig): GenerationConfig => ({
+  ...config,
+  resolution: EXTENSION_RESOLUTION
+});
+
+export interface ExtensionConflict {
+  message: string;
+  blocking: boolean; // The scene can't be extended; false when the extension renders differently instead
+}
+
+/**
+ * Lists where a scene's requested settings and an extension disagree. A resolution set on the
+ * scene itself, or a change of framing, rules the extension out. The production resolution
+ * doesn't: the extension renders at 720p anyway, and the conflict is reported so the change
+ * isn't silent. An empty list means the extension renders as requested.
+ */
+export const getExtensionConflicts = (
+  scene: ScriptScene,
+  config: GenerationConfig,
+  sourceConfig: GenerationConfig | undefined
+): ExtensionConflict[] => {
+  const conflicts: ExtensionConflict[] = [];
+
+  if (scene.generationOverrides?.resolution && config.resolution !== EXTENSION_RESOLUTION) {
+    conflicts.push({
+      message: `Extensions only support ${EXTENSION_RESOLUTION}; this scene requests ${config.resolution}.`,
+      blocking: true
+    });
+  } else if (config.resolution !== EXTENSION_RESOLUTION) {
+    conflicts.push({
+      message: `Extensions only support ${EXTENSION_RESOLUTION}; this scene renders at ${EXTENSION_RESOLUTION} instead of the production's ${config.resolution}.`,
+      blocking: false
+    });
+  }
+  if (sourceConfig && sourceConfig.aspectRatio !== config.aspectRatio) {
+    conflicts.push({
+      message: `Extensions keep the source clip's ${sourceConfig.aspectRatio} framing; this scene requests ${config.aspectRatio}.`,
+      blocking: true
+    });
+  }
+
+  return conflicts;
+};
@@ -0,0 +1,465 @@
+import {
+  ScriptScene,
+  AgentLog,
+  AgentRole,
+  SceneStatus,
+  ContinuityResult,
+  ContinuityMode,
+  ContinuityFinding,
+  ContinuityCategory,
+  ContinuitySeverity,
+  VideoResult,
+  GenerationProvider,
+  GenerationConfig,
+  BibleEntry,
+  BibleEntryKind,
+  ProviderId,
+  PromptLint,
+  PromptRisk,
+  PromptRiskCategory,
+  GenerationErrorKind
+} from "../types";
+import { GenerationError } from "./operations";
+import { abortableDelay } from "./cancellation";
+import { crc32 } from "./crc32";
+import { parseTransition } from "./transitions";
+
+// Simulated latency so the agent topology animates like a real run
+const MOCK_LATENCY_MS = 400;
+const MOCK_CLIP_DURATION_MS = 3000;
+
+// Long and short edge of placeholder frames / clips, oriented by aspect ratio
+const FRAME_EDGES = [64, 36];
+const CLIP_EDGES = [640, 360];
+
+const orient = ([long, short]: number[], aspectRatio: GenerationConfig['aspectRatio']) =>
+  aspectRatio === '9:16' ? { width: short, height: long } : { width: long, height: short };
+
+// Small stable string hash (FNV-1a) so every output is derived from its input
+const hashString = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const colorFromHash = (hash: number): [number, number, number] => [
+  64 + (hash & 0x7f),
+  64 + ((hash >> 8) & 0x7f),
+  64 + ((hash >> 16) & 0x7f)
+];
+
+// -------------------------------------------------------------------------
+// PNG ENCODING (uncompressed, so it works without canvas in any runtime)
+// -------------------------------------------------------------------------
+const adler32 = (bytes: Uint8Array): number => {
+  let a = 1;
+  let b = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    a = (a + bytes[i]) % 65521;
+    b = (b + a) % 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+};
+
+const writeUint32 = (target: number[], value: number) => {
+  target.push((value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff);
+};
+
+const pngChunk = (type: string, data: number[]): number[] => {
+  const typed = [...type].map(c => c.charCodeAt(0));
+  const chunk: number[] = [];
+  writeUint32(chunk, data.length);
+  chunk.push(...typed, ...data);
+  writeUint32(chunk, crc32(new Uint8Array([...typed, ...data])));
+  return chunk;
+};
+
+const encodePng = (width: number, height: number, pixel: (x: number, y: number) => [number, number, number]): string => {
+  // Raw scanlines: filter byte 0 followed by RGB triples
+  const raw = new Uint8Array(height * (width * 3 + 1));
+  let offset = 0;
+  for (let y = 0; y < height; y++) {
+    raw[offset++] = 0;
+    for (let x = 0; x < width; x++) {
+      const [r, g, b] = pixel(x, y);
+      raw[offset++] = r;
+      raw[offset++] = g;
+      raw[offset++] = b;
+    }
+  }
+
+  // zlib stream made of "stored" deflate blocks (max 65535 bytes each)
+  const zlib: number[] = [0x78, 0x01];
+  for (let start = 0; start < raw.length; start += 0xffff) {
+    const block = raw.subarray(start, Math.min(start + 0xffff, raw.length));
+    const isLast = start + 0xffff >= raw.length;
+    zlib.push(isLast ? 1 : 0, block.length & 0xff, block.length >> 8, ~block.length & 0xff, (~block.length >> 8) & 0xff);
+    zlib.push(...block);
+  }
+  writeUint32(zlib, adler32(raw));
+
+  const header: number[] = [];
+  writeUint32(header, width);
+  writeUint32(header, height);
+  header.push(8, 2, 0, 0, 0); // 8-bit depth, truecolor RGB
+
+  const bytes = [
+    0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+    ...pngChunk('IHDR', header),
+    ...pngChunk('IDAT', zlib),
+    ...pngChunk('IEND', [])
+  ];
+
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+};
+
+/**
+ * Builds a deterministic placeholder start frame (vertical gradient) for a prompt.
+ */
+export const createPlaceholderFrame = (
+  seedText: string,
+  aspectRatio: GenerationConfig['aspectRatio'] = '16:9'
+): string => {
+  const hash = hashString(seedText);
+  const top = colorFromHash(hash);
+  const bottom = colorFromHash(hashString(`${seedText}:bottom`));
+  const { width, height } = orient(FRAME_EDGES, aspectRatio);
+
+  return encodePng(width, height, (_x, y) => {
+    const t = y / (height - 1);
+    return [
+      Math.round(top[0] + (bottom[0] - top[0]) * t),
+      Math.round(top[1] + (bottom[1] - top[1]) * t),
+      Math.round(top[2] + (bottom[2] - top[2]) * t)
+    ];
+  });
+};
+
+// -------------------------------------------------------------------------
+// SAMPLE CLIPS (recorded from a canvas in the browser)
+// -------------------------------------------------------------------------
+const loadImage = (src: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => resolve(img);
+  img.onerror = reject;
+  img.src = src;
+});
+
+const canRecordClips = () =>
+  typeof document !== 'undefined' &&
+  typeof MediaRecorder !== 'undefined' &&
+  typeof HTMLCanvasElement !== 'undefined' &&
+  'captureStream' in HTMLCanvasElement.prototype;
+
+const recordSampleClip = async (
+  scene: ScriptScene,
+  imageBase64: string | undefined,
+  config: GenerationConfig,
+  signal?: AbortSignal
+): Promise<string> => {
+  const canvas = document.createElement('canvas');
+  const { width, height } = orient(CLIP_EDGES, config.aspectRatio);
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Mock Generator could not create a canvas context.");
+
+  const background = await loadImage(`data:image/png;base64,${imageBase64 || createPlaceholderFrame(scene.visualPrompt, config.aspectRatio)}`);
+  const stream = canvas.captureStream(30);
+  const recorder = new MediaRecorder(stream, { mimeType: 'video/webm' });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+
+  const finished = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+  const startedAt = performance.now();
+  const onAbort = () => recorder.stop();
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  const draw = () => {
+    if (signal?.aborted) return;
+
+    const progress = Math.min((performance.now() - startedAt) / MOCK_CLIP_DURATION_MS, 1);
+    ctx.drawImage(background, 0, 0, canvas.width, canvas.height);
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
+    ctx.fillRect(0, canvas.height - 72, canvas.width, 72);
+    ctx.fillStyle = '#ffffff';
+    ctx.font = 'bold 20px monospace';
+    ctx.fillText(`SCENE ${scene.id}: ${scene.title}`, 16, canvas.height - 40);
+    ctx.fillStyle = '#6366f1';
+    ctx.fillRect(0, canvas.height - 8, canvas.width * progress, 8);
+    if (progress < 1) {
+      requestAnimationFrame(draw);
+    } else {
+      recorder.stop();
+    }
+  };
+
+  recorder.start();
+  draw();
+  await finished;
+  signal?.removeEventListener('abort', onAbort);
+  stream.getTracks().forEach(track => track.stop());
+  signal?.throwIfAborted();
+
+  return URL.createObjectURL(new Blob(chunks, { type: 'video/webm' }));
+};
+
+// -------------------------------------------------------------------------
+// MOCK AGENTS
+// -------------------------------------------------------------------------
+
+/**
+ * MOCK PARSER AGENT: Splits the script into blocks separated by blank lines,
+ * reading `Visual:` / `Context:` / `Transition:` lines when present and `Dialogue:` lines as captions.
+ */
+export const parseScriptMock = async (rawText: string, signal?: AbortSignal): Promise<ScriptScene[]> => {
+  await abortableDelay(MOCK_LATENCY_MS, signal);
+
+  const blocks = rawText
+    .split(/\n\s*\n/)
+    .map(block => block.trim())
+    .filter(block => block && !block.startsWith('#'));
+
+  return blocks.map((block, index) => {
+    const lines = block.split('\n').map(line => line.trim());
+    const heading = lines[0].replace(/^SCENE\s+\d+\s*:\s*/i, '');
+    const field = (name: string) => lines.find(line => line.toLowerCase().startsWith(`${name.toLowerCase()}:`))?.slice(name.length + 1).trim();
+    const body = lines.slice(1).join(' ');
+    const captions = lines
+      .filter(line => /^dialogue:/i.test(line))
+      .map(line => {
+        const value = line.slice('dialogue:'.length).trim();
+        const spoken = value.match(/^([^:]{1,40}):\s*(.+)$/);
+        return spoken ? { speaker: spoken[1].trim(), text: spoken[2].trim() } : { text: value };
+      });
+
+    return {
+      id: index + 1,
+      title: heading,
+      visualPrompt: field('Visual') || body || heading,
+      narrativeContext: field('Context') || body || heading,
+      imageUrl: field('Image'),
+      transitionIn: field('Transition') ? parseTransition(field('Transition')!) : undefined,
+      captions: captions.length > 0 ? captions : undefined,
+      status: SceneStatus.IDLE
+    };
+  });
+};
+
+// Capitalized words that start sentences or titles rather than name anyone
+const MOCK_STOP_WORDS = new Set(['The', 'And', 'But', 'With', 'From', 'Scene', 'Interior', 'Exterior', 'Close', 'Wide']);
+
+/**
+ * MOCK PARSER AGENT (BIBLE): Treats capitalized words that never appear in lower case
+ * and show up in two or more scenes as characters, and INT./EXT. headings as locations.
+ */
+export const extractBibleMock = async (scenes: ScriptScene[], signal?: AbortSignal): Promise<BibleEntry[]> => {
+  await abortableDelay(MOCK_LATENCY_MS, signal);
+
+  const sceneText = scenes.map(s => [s.title, s.visualPrompt, s.narrativeContext, ...(s.dialogue || []).map(d => d.character)].join(' '));
+  const allText = sceneText.join(' ');
+  const firstMention = (name: string) =>
+    scenes.map(s => s.visualPrompt).join(' ').split(/(?<=\.)\s+/).find(sentence => sentence.includes(name)) || '';
+
+  const candidates = new Set(allText.match(/\b[A-Z][a-z]{2,}\b/g) || []);
+  const characters = [...candidates].filter(name =>
+    !MOCK_STOP_WORDS.has(name) &&
+    !new RegExp(`\\b${name.toLowerCase()}\\b`).test(allText) &&
+    sceneText.filter(text => text.includes(name)).length >= 2
+  );
+
+  const locations = [...new Set(scenes
+    .map(s => s.title.match(/^(?:INT|EXT|EST|INT\.?\/EXT|I\/E)[.\s]+(.+?)(?:\s+-\s+.*)?$/i)?.[1]?.trim())
+    .filter((name): name is string => Boolean(name)))];
+
+  return [
+    ...characters.map(name => ({
+      id: `mock-character-${hashString(name).toString(16)}`,
+      kind: BibleEntryKind.CHARACTER,
+      name,
+      aliases: [],
+      description: firstMention(name) || `${name} (mock description).`
+    })),
+    ...locations.map(name => ({
+      id: `mock-location-${hashString(name).toString(16)}`,
+      kind: BibleEntryKind.LOCATION,
+      name,
+      aliases: [],
+      description: firstMention(name) || `${name} (mock description).`
+    }))
+  ];
+};
+
+/**
+ * MOCK CONTINUITY AGENT: Extends when the visual explicitly continues the previous shot and
+ * matches the last frame when it says it stays in the same place.
+ */
+export const checkContinuityMock = async (
+  currentScene: ScriptScene,
+  previousScene: ScriptScene | null,
+  signal?: AbortSignal
+): Promise<ContinuityResult> => {
+  if (!previousScene) {
+    return { mode: ContinuityMode.FRESH_SHOT, reasoning: "First scene, nothing to extend." };
+  }
+
+  await abortableDelay(MOCK_LATENCY_MS, signal);
+
+  if (/\b(continues|continuous|same shot)\b/i.test(currentScene.visualPrompt)) {
+    return { mode: ContinuityMode.EXTEND, reasoning: "Visual explicitly continues the previous shot (mock heuristic)." };
+  }
+  if (/\b(same (room|place|location|set)|moments later)\b/i.test(currentScene.visualPrompt)) {
+    return { mode: ContinuityMode.MATCH_LAST_FRAME, reasoning: "New shot in the same place; starting from the previous frame (mock heuristic)." };
+  }
+  return { mode: ContinuityMode.FRESH_SHOT, reasoning: "New shot detected (mock heuristic)." };
+};
+
+// Lighting words the mock visual QA compares between shots
+const LIGHTING_WORDS = ['day', 'night', 'dawn', 'dusk', 'sunset', 'neon', 'candlelit'];
+
+const lightingOf = (prompt: string) => LIGHTING_WORDS.find(word => new RegExp(`\\b${word}\\b`, 'i').test(prompt));
+
+/**
+ * MOCK CONTINUITY AGENT (VISUAL): Placeholder frames carry nothing worth comparing, so lighting
+ * words in the two prompts stand in for the frames. Day against night is a high-severity break.
+ */
+export const inspectContinuityMock = async (
+  _previousFrameBase64: string,
+  _startFrameBase64: string,
+  currentScene: ScriptScene,
+  previousScene: ScriptScene,
+  signal?: AbortSignal
+): Promise<ContinuityFinding[]> => {
+  await abortableDelay(MOCK_LATENCY_MS, signal);
+
+  const before = lightingOf(previousScene.visualPrompt);
+  const after = lightingOf(currentScene.visualPrompt);
+  if (!before || !after || before === after) return [];
+
+  const dayNight = [before, after].includes('day') && [before, after].includes('night');
+  return [{
+    category: ContinuityCategory.LIGHTING,
+    severity: dayNight ? ContinuitySeverity.HIGH : ContinuitySeverity.MEDIUM,
+    description: `Previous shot is lit for ${before}, this frame for ${after} (mock heuristic).`
+  }];
+};
+
+// Words the mock safety filter knows, with the neutral wording it swaps in
+const MOCK_RISKS: { category: PromptRiskCategory; pattern: RegExp; replacement: string; reason: string }[] = [
+  { category: PromptRiskCategory.REAL_PERSON, pattern: /\b(Elon Musk|Taylor Swift|Barack Obama|Donald Trump|Tom Cruise)\b/gi, replacement: 'a famous-looking stranger', reason: 'Names a real person.' },
+  { category: PromptRiskCategory.BRAND, pattern: /\b(Coca-Cola|Pepsi|Nike|McDonald's|Disney|Home Depot)\b/gi, replacement: 'unbranded', reason: 'Names a trademarked brand.' },
+  { category: PromptRiskCategory.VIOLENCE, pattern: /\b(blood(y|ied)?|gore|gory|gunfire|stabb(ed|ing)|corpses?)\b/gi, replacement: 'ominous', reason: 'Describes graphic violence.' }
+];
+
+const findMockRisks = (visualPrompt: string): PromptRisk[] =>
+  MOCK_RISKS.flatMap(({ category, pattern, reason }) =>
+    [...visualPrompt.matchAll(pattern)].map(([excerpt]) => ({ category, excerpt, reason: `${reason} (mock heuristic)` }))
+  );
+
+const rewriteMock = (visualPrompt: string) =>
+  MOCK_RISKS.reduce((prompt, { pattern, replacement }) => prompt.replace(pattern, replacement), visualPrompt);
+
+/**
+ * MOCK SAFETY AGENT (PRE-FLIGHT): Flags a short list of names, brands and violent words.
+ */
+export const lintPromptMock = async (visualPrompt: string, signal?: AbortSignal): Promise<PromptLint> => {
+  await abortableDelay(MOCK_LATENCY_MS, signal);
+  const risks = findMockRisks(visualPrompt);
+  return { prompt: visualPrompt, risks, suggestedPrompt: risks.length > 0 ? rewriteMock(visualPrompt) : undefined };
+};
+
+/**
+ * MOCK SAFETY AGENT (REWRITE): Swaps every word the mock filter knows for neutral wording.
+ */
+export const rewritePromptMock = async (visualPrompt: string, _reason: string, signal?: AbortSignal): Promise<string> => {
+  await abortableDelay(MOCK_LATENCY_MS, signal);
+  return rewriteMock(visualPrompt);
+};
+
+/**
+ * MOCK STAGE HAND AGENT: Returns a deterministic placeholder frame.
+ */
+export const generateStageHandImageMock = async (
+  visualPrompt: string,
+  config: GenerationConfig,
+  _referenceImages: string[],
+  signal?: AbortSignal
+): Promise<string> => {
+  await abortableDelay(MOCK_LATENCY_MS, signal);
+  return createPlaceholderFrame(visualPrompt, config.aspectRatio);
+};
+
+/**
+ * MOCK HELPER: Reference images are never fetched offline; a placeholder stands in for them.
+ */
+export const fetchImageAsBase64Mock = async (url: string, signal?: AbortSignal): Promise<string> => {
+  await abortableDelay(MOCK_LATENCY_MS, signal);
+  return createPlaceholderFrame(url);
+};
+
+/**
+ * MOCK GENERATOR AGENT: Records a short sample clip from the start frame.
+ * Outside the browser it returns a synthetic `mock://` URI instead. Like Veo, it refuses
+ * prompts with graphic violence, so rewrite-and-retry can be tried offline.
+ */
+export const generateVideoMock = async (
+  scene: ScriptScene,
+  previousSceneVideoHandle: any | undefined,
+  shouldExtend: boolean,
+  imageBase64: string | undefined,
+  config: GenerationConfig,
+  logCallback: (log: AgentLog) => void,
+  signal?: AbortSignal
+): Promise<VideoResult> => {
+  logCallback({
+    id: crypto.randomUUID(),
+    timestamp: new Date(),
+    role: AgentRole.GENERATOR,
+    status: 'thinking',
+    message: `Initializing mock render for Scene ${scene.id} (${config.resolution}, ${config.aspectRatio})...${shouldExtend && previousSceneVideoHandle ? ' (extension)' : ''}`
+  });
+
+  const violence = findMockRisks(scene.visualPrompt).filter(r => r.category === PromptRiskCategory.VIOLENCE);
+  if (violence.length > 0) {
+    await abortableDelay(MOCK_LATENCY_MS, signal);
+    throw new GenerationError(
+      `Mock filter refused the prompt: ${violence.map(r => `"${r.excerpt}"`).join(', ')}`,
+      GenerationErrorKind.SAFETY,
+      { excerpts: violence.map(r => r.excerpt) }
+    );
+  }
+
+  let uri: string;
+  if (canRecordClips()) {
+    uri = await recordSampleClip(scene, imageBase64, config, signal);
+  } else {
+    await abortableDelay(MOCK_LATENCY_MS, signal);
+    uri = `mock://scene-${scene.id}-${hashString(scene.visualPrompt).toString(16)}.webm`;
+  }
+
+  return {
+    uri,
+    handle: { provider: ProviderId.MOCK, sceneId: scene.id, uri, extends: shouldExtend ? previousSceneVideoHandle : undefined }
+  };
+};
+
+export const mockProvider: GenerationProvider = {
+  id: ProviderId.MOCK,
+  label: 'Offline Mock',
+  models: { text: 'mock-text', image: 'mock-image', video: 'mock-video', videoExtension: 'mock-video' },
+  isReady: async () => true,
+  parseScript: parseScriptMock,
+  extractBible: extractBibleMock,
+  checkContinuity: checkContinuityMock,
+  inspectContinuity: inspectContinuityMock,
+  lintPrompt: lintPromptMock,
+  rewritePrompt: rewritePromptMock,
+  generateStageHandImage: generateStageHandImageMock,
+  fetchImageAsBase64: fetchImageAsBase64Mock,
+  generateVideo: generateVideoMock
+};
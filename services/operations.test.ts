@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { GenerationErrorKind } from '../types';
+import { classifyError } from './operations';
+
+const httpError = (message: string, status: number) => Object.assign(new Error(message), { status });
+
+describe('classifyError', () => {
+  it('classifies safety refusals from the API', () => {
+    expect(classifyError(httpError('The prompt could not be submitted. It violates our usage guidelines.', 400)).kind).toBe(GenerationErrorKind.SAFETY);
+    expect(classifyError(new Error('Generation stopped: Responsible AI practices')).kind).toBe(GenerationErrorKind.SAFETY);
+  });
+
+  it('does not read network and CORS failures as safety refusals', () => {
+    expect(classifyError(new TypeError('Request blocked by CORS policy')).kind).toBe(GenerationErrorKind.TRANSIENT);
+    expect(classifyError(new TypeError('net::ERR_BLOCKED_BY_CLIENT')).kind).toBe(GenerationErrorKind.TRANSIENT);
+    expect(classifyError(httpError('Response filtered by proxy', 502)).kind).toBe(GenerationErrorKind.TRANSIENT);
+  });
+
+  it('lets status and gRPC codes decide before the message', () => {
+    expect(classifyError(httpError('Request blocked: too many requests', 429)).kind).toBe(GenerationErrorKind.QUOTA);
+    expect(classifyError(Object.assign(new Error('Blocked'), { code: 8 })).kind).toBe(GenerationErrorKind.QUOTA);
+    expect(classifyError(httpError('Access blocked for this key', 403)).kind).toBe(GenerationErrorKind.INVALID_INPUT);
+    expect(classifyError(httpError('Invalid resolution', 400)).kind).toBe(GenerationErrorKind.INVALID_INPUT);
+  });
+});
@@ -0,0 +1,180 @@
+import { GenerationErrorKind } from "../types";
+import { abortableDelay } from "./cancellation";
+
+/**
+ * A classified generation failure. `metadata` carries what the API reported (status, code,
+ * filter reasons) plus how many attempts were made, for the structured log.
+ */
+export class GenerationError extends Error {
+  constructor(
+    message: string,
+    public readonly kind: GenerationErrorKind,
+    public readonly metadata: Record<string, any> = {}
+  ) {
+    super(message);
+    this.name = 'GenerationError';
+  }
+
+  get retryable(): boolean {
+    return this.kind === GenerationErrorKind.TRANSIENT;
+  }
+}
+
+// gRPC status codes as reported on long-running operations
+const GRPC_INVALID_ARGUMENT = 3;
+const GRPC_RESOURCE_EXHAUSTED = 8;
+const GRPC_FAILED_PRECONDITION = 9;
+
+// Safety refusals name the filter or the policy; bare "blocked" or "filtered" (CORS, ad blockers,
+// proxies) is not enough
+const SAFETY_PATTERN = /\bsafety\b|responsible ai|usage guidelines|prohibited content|content polic(y|ies)|\b(prompt|content|image|video|clip) (was |were )?(blocked|filtered)\b/i;
+const QUOTA_PATTERN = /quota|rate.?limit|resource.?exhausted|too many requests/i;
+const INVALID_PATTERN = /invalid|unsupported|not supported|malformed|bad request/i;
+
+/**
+ * Maps anything a provider call can throw (SDK errors with an HTTP `status`, operation errors
+ * with a gRPC `code`, network failures) onto a GenerationError. Status codes that settle the
+ * kind on their own win; safety refusals arrive as bad requests (or without a status), so the
+ * message only decides between safety and the rest.
+ */
+export const classifyError = (error: any): GenerationError => {
+  if (error instanceof GenerationError) return error;
+
+  const message: string = error?.message || String(error) || 'Unknown generation error';
+  const status: number | undefined = typeof error?.status === 'number' ? error.status : undefined;
+  const code: number | undefined = typeof error?.code === 'number' ? error.code : undefined;
+  const metadata = { status, code, original: error?.name };
+
+  let kind: GenerationErrorKind;
+  if (status === 429 || code === GRPC_RESOURCE_EXHAUSTED) {
+    kind = GenerationErrorKind.QUOTA;
+  } else if (status === 403 || status === 401) {
+    // Auth failures won't fix themselves; treat them like bad input rather than retrying
+    kind = GenerationErrorKind.INVALID_INPUT;
+  } else if (status !== undefined && status >= 500) {
+    kind = GenerationErrorKind.TRANSIENT;
+  } else if (SAFETY_PATTERN.test(message)) {
+    kind = GenerationErrorKind.SAFETY;
+  } else if (QUOTA_PATTERN.test(message)) {
+    kind = GenerationErrorKind.QUOTA;
+  } else if (status === 400 || status === 404 || code === GRPC_INVALID_ARGUMENT || code === GRPC_FAILED_PRECONDITION || INVALID_PATTERN.test(message)) {
+    kind = GenerationErrorKind.INVALID_INPUT;
+  } else {
+    // INTERNAL / UNAVAILABLE / DEADLINE_EXCEEDED operation errors and network failures
+    kind = GenerationErrorKind.TRANSIENT;
+  }
+
+  return new GenerationError(message, kind, metadata);
+};
+
+export interface OperationPolicy {
+  initialPollMs: number; // First wait between polls
+  maxPollMs: number; // Cap for the exponential backoff
+  backoffFactor: number;
+  deadlineMs: number; // Overall budget for one scene, across retries
+  maxAttempts: number; // Submissions, including the first
+}
+
+// Veo clips usually take 1-2 minutes; poll quickly at first, then back off
+export const VIDEO_OPERATION_POLICY: OperationPolicy = {
+  initialPollMs: 5000,
+  maxPollMs: 30000,
+  backoffFactor: 1.5,
+  deadlineMs: 10 * 60 * 1000,
+  maxAttempts: 3
+};
+
+export interface OperationSteps<Op, Result> {
+  submit: () => Promise<Op>;
+  refresh: (operation: Op) => Promise<Op>;
+  isDone: (operation: Op) => boolean;
+  // Returns the result of a finished operation, or throws if it failed
+  complete: (operation: Op) => Result;
+}
+
+export interface OperationHooks {
+  signal?: AbortSignal;
+  onSubmitted?: (attempt: number) => void;
+  onRetry?: (error: GenerationError, attempt: number, delayMs: number) => void;
+}
+
+/**
+ * OPERATION RUNNER: Submits a long-running operation and polls it to completion with exponential
+ * backoff. Transient failures are retried: a failed poll is polled again, a failed submission or
+ * operation is resubmitted. Everything else, and the deadline, ends the run with a GenerationError.
+ * Aborting the signal rejects with its reason, unclassified.
+ */
+export const runOperation = async <Op, Result>(
+  steps: OperationSteps<Op, Result>,
+  policy: OperationPolicy,
+  { signal, onSubmitted, onRetry }: OperationHooks = {}
+): Promise<Result> => {
+  const startedAt = Date.now();
+  const deadline = startedAt + policy.deadlineMs;
+  let attempt = 0;
+  let retryDelay = policy.initialPollMs;
+
+  // Waits before the next poll or retry without sleeping past the deadline
+  const wait = async (ms: number) => {
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) {
+      throw new GenerationError(
+        `Operation did not finish within ${Math.round(policy.deadlineMs / 1000)}s.`,
+        GenerationErrorKind.TIMEOUT,
+        { attempts: attempt, elapsedMs: Date.now() - startedAt }
+      );
+    }
+    await abortableDelay(Math.min(ms, remaining), signal);
+  };
+
+  const classify = (error: unknown): GenerationError => {
+    if (signal?.aborted) throw signal.reason ?? error;
+    const classified = classifyError(error);
+    classified.metadata.attempts = attempt;
+    classified.metadata.elapsedMs = Date.now() - startedAt;
+    return classified;
+  };
+
+  // Classifies a failed submission or operation and either backs off to resubmit or gives up
+  const handleFailure = async (error: unknown) => {
+    const classified = classify(error);
+    if (!classified.retryable || attempt >= policy.maxAttempts) throw classified;
+
+    onRetry?.(classified, attempt, retryDelay);
+    await wait(retryDelay);
+    retryDelay = Math.min(retryDelay * policy.backoffFactor, policy.maxPollMs);
+  };
+
+  while (true) {
+    attempt++;
+    let operation: Op;
+    try {
+      operation = await steps.submit();
+    } catch (error) {
+      await handleFailure(error);
+      continue;
+    }
+    onSubmitted?.(attempt);
+
+    let pollDelay = policy.initialPollMs;
+    let pollFailures = 0;
+    while (!steps.isDone(operation)) {
+      await wait(pollDelay);
+      pollDelay = Math.min(pollDelay * policy.backoffFactor, policy.maxPollMs);
+      try {
+        operation = await steps.refresh(operation);
+      } catch (error) {
+        // A failed poll doesn't mean the operation failed; keep polling unless it isn't transient
+        const classified = classify(error);
+        if (!classified.retryable || ++pollFailures >= policy.maxAttempts) throw classified;
+        onRetry?.(classified, attempt, pollDelay);
+      }
+    }
+
+    try {
+      return steps.complete(operation);
+    } catch (error) {
+      await handleFailure(error);
+    }
+  }
+};
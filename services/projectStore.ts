@@ -0,0 +1,156 @@
+import { ProductionProject, ProjectSummary, SceneStatus } from "../types";
+import { fetchClip } from "./geminiService";
+
+const DB_NAME = 'holmes-on-code';
+const DB_VERSION = 2;
+const PROJECTS_STORE = 'projects';
+const VIDEOS_STORE = 'videos'; // One clip per scene, from before takes; read-only now
+const TAKES_STORE = 'takes';
+
+interface StoredVideo {
+  projectId: string;
+  sceneId: number;
+  blob: Blob;
+  sourceUri: string;
+}
+
+interface StoredTake {
+  projectId: string;
+  takeId: string;
+  blob: Blob;
+  sourceUri: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Helper to open (and lazily upgrade) the database once per session
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PROJECTS_STORE)) {
+          db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(VIDEOS_STORE)) {
+          const videos = db.createObjectStore(VIDEOS_STORE, { keyPath: ['projectId', 'sceneId'] });
+          videos.createIndex('projectId', 'projectId');
+        }
+        if (!db.objectStoreNames.contains(TAKES_STORE)) {
+          const takes = db.createObjectStore(TAKES_STORE, { keyPath: ['projectId', 'takeId'] });
+          takes.createIndex('projectId', 'projectId');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Helper to turn an IDBRequest into a promise
+const promisify = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+/**
+ * Derives a display name from the script's first markdown heading.
+ */
+export const deriveProjectName = (scriptText: string): string => {
+  const heading = scriptText.split('\n').find(line => line.trim().startsWith('#'));
+  return heading ? heading.replace(/^#+/, '').trim() : 'Untitled Production';
+};
+
+/**
+ * Saves (or overwrites) a production. Video URIs are kept as-is; playable
+ * copies of the clips are stored separately via `saveTakeVideo`.
+ */
+export const saveProject = async (project: ProductionProject): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(PROJECTS_STORE, 'readwrite');
+  await promisify(tx.objectStore(PROJECTS_STORE).put(project));
+};
+
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const db = await openDb();
+  const projects: ProductionProject[] = await promisify(
+    db.transaction(PROJECTS_STORE, 'readonly').objectStore(PROJECTS_STORE).getAll()
+  );
+
+  return projects
+    .map(p => ({
+      id: p.id,
+      name: p.name,
+      sceneCount: p.scenes.length,
+      completedCount: p.scenes.filter(s => s.status === SceneStatus.COMPLETED).length,
+      updatedAt: p.updatedAt
+    }))
+    .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+};
+
+/**
+ * Loads a production and points every stored clip at a fresh object URL,
+ * so the gallery and Reel Player work without re-fetching remote videos.
+ * Each take gets its own clip; the scene's video follows its circle take.
+ */
+export const loadProject = async (id: string): Promise<ProductionProject | null> => {
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS_STORE, VIDEOS_STORE, TAKES_STORE], 'readonly');
+  const project: ProductionProject | undefined = await promisify(tx.objectStore(PROJECTS_STORE).get(id));
+  if (!project) return null;
+
+  const [videos, storedTakes]: [StoredVideo[], StoredTake[]] = await Promise.all([
+    promisify(tx.objectStore(VIDEOS_STORE).index('projectId').getAll(id)),
+    promisify(tx.objectStore(TAKES_STORE).index('projectId').getAll(id))
+  ]);
+  const takeUris = new Map(storedTakes.map(t => [t.takeId, URL.createObjectURL(t.blob)]));
+
+  return {
+    ...project,
+    scenes: project.scenes.map(scene => {
+      if (scene.takes) {
+        const takes = scene.takes.map(take => ({ ...take, videoUri: takeUris.get(take.id) ?? take.videoUri }));
+        const circled = takes.find(take => take.id === scene.selectedTakeId);
+        return { ...scene, takes, videoUri: circled?.videoUri ?? scene.videoUri };
+      }
+      // Saved before takes: a single clip per scene
+      const video = videos.find(v => v.sceneId === scene.id);
+      return video ? { ...scene, videoUri: URL.createObjectURL(video.blob) } : scene;
+    })
+  };
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS_STORE, VIDEOS_STORE, TAKES_STORE], 'readwrite');
+  tx.objectStore(PROJECTS_STORE).delete(id);
+
+  for (const name of [VIDEOS_STORE, TAKES_STORE]) {
+    const store = tx.objectStore(name);
+    const keys = await promisify(store.index('projectId').getAllKeys(id));
+    keys.forEach(key => store.delete(key));
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+/**
+ * Downloads a take's clip and stores the blob alongside its project.
+ */
+export const saveTakeVideo = async (projectId: string, takeId: string, uri: string, signal?: AbortSignal): Promise<void> => {
+  const response = await fetchClip(uri, signal);
+  if (!response.ok) throw new Error(`Failed to download video: ${response.statusText}`);
+  const blob = await response.blob();
+
+  const db = await openDb();
+  const record: StoredTake = { projectId, takeId, blob, sourceUri: uri };
+  await promisify(db.transaction(TAKES_STORE, 'readwrite').objectStore(TAKES_STORE).put(record));
+};
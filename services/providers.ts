@@ -0,0 +1,17 @@
+import { GenerationProvider, ProviderId } from "../types";
+import { geminiProvider } from "./geminiService";
+import { mockProvider } from "./mockService";
+
+export const PROVIDERS: Record<ProviderId, GenerationProvider> = {
+  [ProviderId.GEMINI]: geminiProvider,
+  [ProviderId.MOCK]: mockProvider
+};
+
+/**
+ * Resolves the generation backend the Director should use for a run.
+ */
+export const getProvider = (id: ProviderId): GenerationProvider => {
+  const provider = PROVIDERS[id];
+  if (!provider) throw new Error(`Unknown generation provider: ${id}`);
+  return provider;
+};
@@ -0,0 +1,208 @@
+import { ScriptScene, SceneTransition, TransitionType } from "../types";
+import { dipColor, isDip, transitionInto, transitionSpan } from "./transitions";
+import { fetchClip } from "./geminiService";
+
+const FRAME_RATE = 30;
+
+// Containers MediaRecorder may support, most deliverable first
+const RECORDING_TYPES = [
+  'video/mp4;codecs=avc1,mp4a.40.2',
+  'video/mp4',
+  'video/webm;codecs=vp9,opus',
+  'video/webm;codecs=vp8,opus',
+  'video/webm'
+];
+
+export const canRenderReel = () =>
+  typeof MediaRecorder !== 'undefined' &&
+  typeof AudioContext !== 'undefined' &&
+  'captureStream' in HTMLCanvasElement.prototype &&
+  RECORDING_TYPES.some(type => MediaRecorder.isTypeSupported(type));
+
+export interface RenderedReel {
+  blob: Blob;
+  extension: 'mp4' | 'webm';
+  clipDurationsMs: Record<number, number>; // By scene id, for laying captions over the reel
+}
+
+export interface RenderProgress {
+  sceneId: number;
+  fraction: number; // 0..1 across the whole reel
+}
+
+interface LoadedClip {
+  scene: ScriptScene;
+  video: HTMLVideoElement;
+  objectUrl: string;
+  transitionIn: SceneTransition;
+}
+
+// Fetches a clip into a same-origin object URL so drawing it doesn't taint the canvas
+const loadClip = async (scene: ScriptScene, signal?: AbortSignal): Promise<{ video: HTMLVideoElement; objectUrl: string }> => {
+  const response = await fetchClip(scene.videoUri!, signal);
+  if (!response.ok) throw new Error(`Scene ${scene.id}: could not download clip (${response.statusText}).`);
+  const objectUrl = URL.createObjectURL(await response.blob());
+
+  const video = document.createElement('video');
+  video.preload = 'auto';
+  video.playsInline = true;
+  video.src = objectUrl;
+  await new Promise<void>((resolve, reject) => {
+    video.onloadedmetadata = () => resolve();
+    video.onerror = () => reject(new Error(`Scene ${scene.id}: clip could not be decoded.`));
+  });
+  return { video, objectUrl };
+};
+
+// Draws `video` letterboxed into the canvas
+const drawContained = (ctx: CanvasRenderingContext2D, video: HTMLVideoElement) => {
+  const { width, height } = ctx.canvas;
+  const scale = Math.min(width / video.videoWidth, height / video.videoHeight);
+  const w = video.videoWidth * scale;
+  const h = video.videoHeight * scale;
+  ctx.drawImage(video, (width - w) / 2, (height - h) / 2, w, h);
+};
+
+/**
+ * REEL RENDERER: Plays the scenes back to back onto a canvas and records it, with each clip's
+ * audio mixed in through Web Audio, into one video file. Each cut is drawn with the scene's
+ * transition, as in the ReelPlayer: dips fade picture and sound through black or white, while
+ * dissolves and wipes blend from the outgoing clip's last frame into the incoming clip.
+ * Runs in real time, so a reel takes as long to render as it does to watch.
+ */
+export const renderReel = async (
+  scenes: ScriptScene[],
+  onProgress: (progress: RenderProgress) => void,
+  signal?: AbortSignal
+): Promise<RenderedReel> => {
+  const mimeType = RECORDING_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+  if (!mimeType) throw new Error("This browser can't record video.");
+
+  const clips: LoadedClip[] = [];
+  const audio = new AudioContext();
+  let recorder: MediaRecorder | null = null;
+
+  try {
+    for (const [i, scene] of scenes.entries()) {
+      const loaded = await loadClip(scene, signal);
+      clips.push({
+        scene,
+        ...loaded,
+        transitionIn: i > 0 ? transitionInto(scene) : { type: TransitionType.CUT, durationMs: 0 }
+      });
+    }
+    if (clips.length === 0) throw new Error("There are no completed scenes to render.");
+
+    const canvas = document.createElement('canvas');
+    canvas.width = clips[0].video.videoWidth;
+    canvas.height = clips[0].video.videoHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Could not create a canvas to render into.");
+
+    // The last frame of the previous clip, for dissolves and wipes to blend from
+    const held = document.createElement('canvas');
+    held.width = canvas.width;
+    held.height = canvas.height;
+    const heldCtx = held.getContext('2d')!;
+
+    // Every clip's soundtrack goes through its own gain node so fades apply to audio too
+    const mix = audio.createMediaStreamDestination();
+    const gains = clips.map(clip => {
+      const gain = audio.createGain();
+      audio.createMediaElementSource(clip.video).connect(gain).connect(mix);
+      return gain;
+    });
+    await audio.resume();
+
+    const stream = canvas.captureStream(FRAME_RATE);
+    mix.stream.getAudioTracks().forEach(track => stream.addTrack(track));
+    const activeRecorder = new MediaRecorder(stream, { mimeType });
+    recorder = activeRecorder;
+    const chunks: Blob[] = [];
+    activeRecorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+    const stopped = new Promise<void>(resolve => { activeRecorder.onstop = () => resolve(); });
+
+    const totalMs = clips.reduce((sum, clip) => sum + clip.video.duration * 1000, 0);
+    let elapsedBeforeMs = 0;
+
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    activeRecorder.start(1000);
+
+    for (const [i, clip] of clips.entries()) {
+      const { video, transitionIn } = clip;
+      const transitionOut = clips[i + 1]?.transitionIn;
+      const durationMs = video.duration * 1000;
+      const { inMs } = transitionSpan(transitionIn);
+      const { outMs } = transitionOut ? transitionSpan(transitionOut) : { outMs: 0 };
+      const dipIn = isDip(transitionIn) && inMs > 0;
+      const dipOut = Boolean(transitionOut && isDip(transitionOut) && outMs > 0);
+
+      await new Promise<void>((resolve, reject) => {
+        const onAbort = () => { video.pause(); reject(signal?.reason); };
+        signal?.addEventListener('abort', onAbort, { once: true });
+
+        const frame = () => {
+          if (signal?.aborted) return;
+          const tMs = video.currentTime * 1000;
+          const alpha = Math.max(0, Math.min(
+            1,
+            dipIn ? tMs / inMs : 1,
+            dipOut ? (durationMs - tMs) / outMs : 1
+          ));
+          // A clip that dips in from white and out to black shows each colour in its own half
+          const background = dipOut && tMs > durationMs / 2 ? dipColor(transitionOut!) : dipIn ? dipColor(transitionIn) : '#000';
+
+          ctx.globalAlpha = 1;
+          ctx.fillStyle = background;
+          ctx.fillRect(0, 0, canvas.width, canvas.height);
+          ctx.globalAlpha = alpha;
+          drawContained(ctx, video);
+          ctx.globalAlpha = 1;
+          gains[i].gain.value = alpha;
+
+          // Dissolves fade the held frame out; wipes uncover the incoming clip from the left
+          const blend = !dipIn && inMs > 0 ? Math.min(tMs / inMs, 1) : 1;
+          if (blend < 1 && transitionIn.type === TransitionType.WIPE) {
+            const edge = canvas.width * blend;
+            ctx.drawImage(held, edge, 0, canvas.width - edge, canvas.height, edge, 0, canvas.width - edge, canvas.height);
+          } else if (blend < 1) {
+            ctx.globalAlpha = 1 - blend;
+            ctx.drawImage(held, 0, 0);
+            ctx.globalAlpha = 1;
+          }
+
+          onProgress({ sceneId: clip.scene.id, fraction: Math.min((elapsedBeforeMs + tMs) / totalMs, 1) });
+          if (!video.ended) requestAnimationFrame(frame);
+        };
+
+        video.onended = () => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        };
+        video.currentTime = 0;
+        video.play().then(() => requestAnimationFrame(frame), reject);
+      });
+
+      heldCtx.drawImage(canvas, 0, 0);
+      elapsedBeforeMs += durationMs;
+    }
+
+    activeRecorder.stop();
+    await stopped;
+    onProgress({ sceneId: clips[clips.length - 1].scene.id, fraction: 1 });
+
+    return {
+      blob: new Blob(chunks, { type: mimeType }),
+      extension: mimeType.startsWith('video/mp4') ? 'mp4' : 'webm',
+      clipDurationsMs: Object.fromEntries(clips.map(clip => [clip.scene.id, clip.video.duration * 1000]))
+    };
+  } finally {
+    if (recorder && recorder.state !== 'inactive') recorder.stop();
+    clips.forEach(clip => {
+      clip.video.pause();
+      URL.revokeObjectURL(clip.objectUrl);
+    });
+    audio.close();
+  }
+};
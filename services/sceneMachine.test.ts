@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { SceneStatus } from '../types';
+import { SceneEvent, SceneTransitionError, canTransition, nextStatus } from './sceneMachine';
+
+const run = (from: SceneStatus, events: SceneEvent[]) =>
+  events.reduce((status, event) => nextStatus(1, status, event), from);
+
+describe('scene state machine', () => {
+  it('walks a fresh shot from idle to completed', () => {
+    expect(run(SceneStatus.IDLE, [
+      { type: 'ANALYZE' },
+      { type: 'QUEUE' },
+      { type: 'PREPARE' },
+      { type: 'GENERATE' },
+      { type: 'COMPLETE' }
+    ])).toBe(SceneStatus.COMPLETED);
+  });
+
+  it('shoots an extension straight from the queue, without a start frame', () => {
+    expect(run(SceneStatus.IDLE, [{ type: 'ANALYZE' }, { type: 'QUEUE' }, { type: 'GENERATE' }])).toBe(SceneStatus.GENERATING);
+  });
+
+  it('stops storyboarded scenes for approval, then queues the approved ones', () => {
+    const storyboarded = run(SceneStatus.IDLE, [{ type: 'ANALYZE' }, { type: 'PREPARE' }, { type: 'STORYBOARD' }]);
+    expect(storyboarded).toBe(SceneStatus.STORYBOARD);
+    expect(nextStatus(1, storyboarded, { type: 'QUEUE' })).toBe(SceneStatus.QUEUED);
+  });
+
+  it('lets Stage Hand run again on a scene it is already preparing', () => {
+    expect(nextStatus(1, SceneStatus.PREPARING_ASSETS, { type: 'PREPARE' })).toBe(SceneStatus.PREPARING_ASSETS);
+  });
+
+  it('fails to the status the failure calls for', () => {
+    expect(nextStatus(1, SceneStatus.GENERATING, { type: 'FAIL', status: SceneStatus.BLOCKED })).toBe(SceneStatus.BLOCKED);
+    expect(nextStatus(1, SceneStatus.ANALYZING, { type: 'FAIL', status: SceneStatus.ERROR })).toBe(SceneStatus.ERROR);
+  });
+
+  it('only cancels or fails scenes that are in flight', () => {
+    for (const status of [SceneStatus.ANALYZING, SceneStatus.PREPARING_ASSETS, SceneStatus.QUEUED, SceneStatus.GENERATING]) {
+      expect(canTransition(status, 'CANCEL')).toBe(true);
+      expect(canTransition(status, 'FAIL')).toBe(true);
+    }
+    for (const status of [SceneStatus.IDLE, SceneStatus.STORYBOARD, SceneStatus.COMPLETED, SceneStatus.ERROR]) {
+      expect(canTransition(status, 'CANCEL')).toBe(false);
+      expect(canTransition(status, 'FAIL')).toBe(false);
+    }
+  });
+
+  it('puts scenes in flight back to idle when the budget cap stops the run', () => {
+    for (const status of [SceneStatus.ANALYZING, SceneStatus.PREPARING_ASSETS, SceneStatus.QUEUED, SceneStatus.GENERATING]) {
+      expect(nextStatus(1, status, { type: 'HALT' })).toBe(SceneStatus.IDLE);
+    }
+    expect(canTransition(SceneStatus.COMPLETED, 'HALT')).toBe(false);
+  });
+
+  it('releases queued scenes back to idle', () => {
+    expect(nextStatus(1, SceneStatus.QUEUED, { type: 'RELEASE' })).toBe(SceneStatus.IDLE);
+    expect(canTransition(SceneStatus.GENERATING, 'RELEASE')).toBe(false);
+  });
+
+  it('picks any settled scene back up, completed ones included', () => {
+    for (const status of [SceneStatus.IDLE, SceneStatus.COMPLETED, SceneStatus.CANCELLED, SceneStatus.BLOCKED, SceneStatus.ERROR]) {
+      expect(nextStatus(1, status, { type: 'ANALYZE' })).toBe(SceneStatus.ANALYZING);
+    }
+    expect(canTransition(SceneStatus.GENERATING, 'ANALYZE')).toBe(false);
+  });
+
+  it('rejects illegal transitions with the scene, status and event', () => {
+    expect(() => nextStatus(3, SceneStatus.QUEUED, { type: 'COMPLETE' })).toThrow(SceneTransitionError);
+    expect(() => nextStatus(3, SceneStatus.COMPLETED, { type: 'GENERATE' })).toThrow('Scene 3: GENERATE is not allowed while COMPLETED.');
+    expect(() => nextStatus(3, SceneStatus.COMPLETED, { type: 'QUEUE' })).toThrow(SceneTransitionError);
+  });
+});
@@ -0,0 +1,80 @@
+import { SceneStatus } from "../types";
+
+/**
+ * What happens to a scene during a Director run. Each event moves the scene to one status, and
+ * only from the statuses listed for it in TRANSITIONS.
+ */
+export type SceneEvent =
+  | { type: 'ANALYZE' } // Continuity QA starts on the scene
+  | { type: 'PREPARE' } // Stage Hand (or a last-frame match) is making the start frame
+  | { type: 'STORYBOARD' } // Pre-production done; waiting for approval before any video spend
+  | { type: 'QUEUE' } // Planned; waiting for a generation slot
+  | { type: 'GENERATE' } // The Generator is rendering the clip
+  | { type: 'COMPLETE' } // The clip is in
+  | { type: 'CANCEL' } // Stopped by the user while in flight
+  | { type: 'HALT' } // The budget cap stopped the run while the scene was in flight; it was not shot
+  | { type: 'FAIL'; status: SceneStatus.ERROR | SceneStatus.BLOCKED } // A classified failure while in flight
+  | { type: 'RELEASE' }; // The run ended before the scene got a generation slot
+
+export type SceneEventType = SceneEvent['type'];
+
+// A scene in one of these is being worked on by the current run
+export const IN_FLIGHT: SceneStatus[] = [
+  SceneStatus.ANALYZING,
+  SceneStatus.PREPARING_ASSETS,
+  SceneStatus.QUEUED,
+  SceneStatus.GENERATING
+];
+
+// Statuses a run can start a scene from; completed scenes are only picked up to regenerate them
+const SETTLED: SceneStatus[] = [
+  SceneStatus.IDLE,
+  SceneStatus.STORYBOARD,
+  SceneStatus.COMPLETED,
+  SceneStatus.CANCELLED,
+  SceneStatus.BLOCKED,
+  SceneStatus.ERROR
+];
+
+const TRANSITIONS: Record<SceneEventType, { from: SceneStatus[]; to: SceneStatus }> = {
+  ANALYZE: { from: SETTLED, to: SceneStatus.ANALYZING },
+  // Stage Hand can run more than once per scene (restyled matches, continuity fixes)
+  PREPARE: { from: [SceneStatus.ANALYZING, SceneStatus.QUEUED, SceneStatus.PREPARING_ASSETS], to: SceneStatus.PREPARING_ASSETS },
+  // Extensions and deferred last-frame matches have no frame to prepare
+  STORYBOARD: { from: [SceneStatus.ANALYZING, SceneStatus.PREPARING_ASSETS], to: SceneStatus.STORYBOARD },
+  // Approved storyboard frames are queued as they are, including ones whose shot failed before
+  QUEUE: { from: [SceneStatus.ANALYZING, ...SETTLED.filter(s => s !== SceneStatus.COMPLETED)], to: SceneStatus.QUEUED },
+  GENERATE: { from: [SceneStatus.ANALYZING, SceneStatus.PREPARING_ASSETS, SceneStatus.QUEUED], to: SceneStatus.GENERATING },
+  COMPLETE: { from: [SceneStatus.GENERATING], to: SceneStatus.COMPLETED },
+  CANCEL: { from: IN_FLIGHT, to: SceneStatus.CANCELLED },
+  HALT: { from: IN_FLIGHT, to: SceneStatus.IDLE },
+  FAIL: { from: IN_FLIGHT, to: SceneStatus.ERROR },
+  RELEASE: { from: [SceneStatus.QUEUED], to: SceneStatus.IDLE }
+};
+
+/**
+ * Raised for a transition the state machine doesn't allow; always a Director bug, never a
+ * provider failure.
+ */
+export class SceneTransitionError extends Error {
+  constructor(
+    public readonly sceneId: number,
+    public readonly status: SceneStatus,
+    public readonly event: SceneEventType
+  ) {
+    super(`Scene ${sceneId}: ${event} is not allowed while ${status}.`);
+    this.name = 'SceneTransitionError';
+  }
+}
+
+export const canTransition = (status: SceneStatus, event: SceneEventType): boolean =>
+  TRANSITIONS[event].from.includes(status);
+
+/**
+ * The status `event` moves a scene in `status` to. Throws a SceneTransitionError when the
+ * event is not legal from there.
+ */
+export const nextStatus = (sceneId: number, status: SceneStatus, event: SceneEvent): SceneStatus => {
+  if (!canTransition(status, event.type)) throw new SceneTransitionError(sceneId, status, event.type);
+  return event.type === 'FAIL' ? event.status : TRANSITIONS[event.type].to;
+};
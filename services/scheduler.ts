@@ -0,0 +1,59 @@
+/**
+ * Groups the scheduled scenes (by index) into extension chains. A chain starts with a scene
+ * that doesn't continue a scheduled predecessor and continues with every scene that picks up from the
+ * one before it (by extending its clip or starting from its last frame).
+ * Chains share nothing, so they can be produced in parallel; scenes within a chain cannot.
+ */
+export const buildExtensionChains = (
+  count: number,
+  isScheduled: (index: number) => boolean,
+  continuesPrevious: (index: number) => boolean
+): number[][] => {
+  const chains: number[][] = [];
+  let current: number[] | null = null;
+
+  for (let i = 0; i < count; i++) {
+    if (!isScheduled(i)) {
+      current = null;
+      continue;
+    }
+    if (current && continuesPrevious(i)) {
+      current.push(i);
+    } else {
+      current = [i];
+      chains.push(current);
+    }
+  }
+
+  return chains;
+};
+
+/**
+ * Runs `worker` over `items` in order with at most `concurrency` in flight. A failed item doesn't
+ * stop the others; once everything has settled the first failure is rethrown.
+ * Nothing new starts after `signal` aborts.
+ */
+export const runPool = async <T>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T) => Promise<void>,
+  signal?: AbortSignal
+): Promise<void> => {
+  const failures: unknown[] = [];
+  let next = 0;
+
+  const lane = async () => {
+    while (next < items.length && !signal?.aborted) {
+      const item = items[next++];
+      try {
+        await worker(item);
+      } catch (err) {
+        failures.push(err);
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, lane));
+  signal?.throwIfAborted();
+  if (failures.length > 0) throw failures[0];
+};
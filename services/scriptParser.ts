@@ -0,0 +1,141 @@
+import { ScriptScene, ScriptParseIssue, ScriptParseResult, SceneStatus, ParseMode, CaptionLine } from "../types";
+import { parseFountain } from "./fountain";
+import { parseTransition } from "./transitions";
+
+// SCENE 3: The Spaghetti Code
+const SCENE_HEADING = /^SCENE\s+(\d+)\s*:\s*(.*)$/i;
+// Visual: ... / Context: ... / Image: ... / Transition: ... / Dialogue: ...
+const FIELD_LINE = /^(Visual|Context|Image|Transition|Dialogue)\s*:\s*(.*)$/i;
+// Dialogue: Mike: Where are your permits?
+const SPEAKER = /^([^:]{1,40}):\s*(.+)$/;
+
+type FieldName = 'visual' | 'context' | 'image' | 'transition';
+
+interface SceneDraft {
+  line: number;
+  number: number;
+  title: string;
+  fields: Partial<Record<FieldName, { line: number; value: string }>>;
+  captions: CaptionLine[];
+  lastField: FieldName | null;
+}
+
+/**
+ * LOCAL PARSER: Reads the strict `SCENE N: Title` / `Visual:` / `Context:` layout
+ * (plus optional `Image:` and `Transition:` lines) without an LLM call. `Transition:` sets how the
+ * scene is cut to, e.g. `Transition: dissolve 800ms`. `Dialogue:` may repeat; each one is a caption,
+ * spoken by a character (`Dialogue: Mike: Where are your permits?`) or narration without a name.
+ *
+ * Markdown headings (`# ...`) and blank lines are ignored. Any other line directly below
+ * a Visual/Context line continues it, so long descriptions can wrap. Scenes are numbered by their
+ * order in the script; the number in the heading is only checked for duplicates.
+ */
+export const parseStructuredScript = (rawText: string): ScriptParseResult => {
+  const errors: ScriptParseIssue[] = [];
+  const drafts: SceneDraft[] = [];
+  const seenNumbers = new Map<number, number>();
+
+  rawText.split('\n').forEach((rawLine, index) => {
+    const lineNumber = index + 1;
+    const line = rawLine.trim();
+    const current = drafts[drafts.length - 1];
+
+    if (!line || line.startsWith('#')) {
+      // A blank line ends a wrapped field
+      if (current) current.lastField = null;
+      return;
+    }
+
+    const heading = line.match(SCENE_HEADING);
+    if (heading) {
+      const number = Number(heading[1]);
+      const title = heading[2].trim();
+      if (seenNumbers.has(number)) {
+        errors.push({ line: lineNumber, message: `Duplicate SCENE ${number} (first defined on line ${seenNumbers.get(number)}).` });
+      } else {
+        seenNumbers.set(number, lineNumber);
+      }
+      if (!title) {
+        errors.push({ line: lineNumber, message: `SCENE ${number} is missing a title after the colon.` });
+      }
+      drafts.push({ line: lineNumber, number, title, fields: {}, captions: [], lastField: null });
+      return;
+    }
+
+    if (!current) {
+      errors.push({ line: lineNumber, message: `Text outside of a scene. Start scenes with "SCENE 1: Title".` });
+      return;
+    }
+
+    const field = line.match(FIELD_LINE);
+    if (field && field[1].toLowerCase() === 'dialogue') {
+      const value = field[2].trim();
+      const spoken = value.match(SPEAKER);
+      if (!value) errors.push({ line: lineNumber, message: `"Dialogue:" in SCENE ${current.number} is empty.` });
+      else current.captions.push(spoken ? { speaker: spoken[1].trim(), text: spoken[2].trim() } : { text: value });
+      current.lastField = null;
+      return;
+    }
+
+    if (field) {
+      const name = field[1].toLowerCase() as FieldName;
+      if (current.fields[name]) {
+        errors.push({ line: lineNumber, message: `Duplicate "${field[1]}:" line in scene starting on line ${current.line}.` });
+        return;
+      }
+      current.fields[name] = { line: lineNumber, value: field[2].trim() };
+      current.lastField = name === 'image' || name === 'transition' ? null : name;
+      return;
+    }
+
+    if (!current.lastField) {
+      errors.push({ line: lineNumber, message: `Expected "Visual:", "Context:", "Image:", "Transition:" or "Dialogue:" in SCENE ${current.number}.` });
+      return;
+    }
+
+    const continued = current.fields[current.lastField]!;
+    continued.value = continued.value ? `${continued.value} ${line}` : line;
+  });
+
+  if (drafts.length === 0 && errors.length === 0) {
+    errors.push({ line: 1, message: `No scenes found. Start scenes with "SCENE 1: Title".` });
+  }
+
+  const scenes: ScriptScene[] = drafts.map((draft, index) => {
+    const { visual, context, image, transition } = draft.fields;
+    const transitionIn = transition ? parseTransition(transition.value) : undefined;
+
+    if (!visual?.value) {
+      errors.push({ line: visual?.line ?? draft.line, message: `SCENE ${draft.number} needs a non-empty "Visual:" line.` });
+    }
+    if (!context?.value) {
+      errors.push({ line: context?.line ?? draft.line, message: `SCENE ${draft.number} needs a non-empty "Context:" line.` });
+    }
+    if (image && !/^(https?:|data:image\/)/i.test(image.value)) {
+      errors.push({ line: image.line, message: `"Image:" must be an http(s) URL or an image data URI.` });
+    }
+    if (transition && !transitionIn) {
+      errors.push({ line: transition.line, message: `"Transition:" must be cut, match cut, dissolve, dip to black/white or wipe.` });
+    }
+
+    return {
+      id: index + 1,
+      title: draft.title,
+      visualPrompt: visual?.value ?? '',
+      narrativeContext: context?.value ?? '',
+      imageUrl: image?.value || undefined,
+      transitionIn,
+      captions: draft.captions.length > 0 ? draft.captions : undefined,
+      status: SceneStatus.IDLE
+    };
+  });
+
+  errors.sort((a, b) => a.line - b.line);
+  return { scenes, errors };
+};
+
+// Parse modes handled in the browser; any mode missing here goes to the provider's LLM parser
+export const LOCAL_PARSERS: Partial<Record<ParseMode, (rawText: string) => ScriptParseResult>> = {
+  [ParseMode.STRUCTURED]: parseStructuredScript,
+  [ParseMode.FOUNTAIN]: parseFountain
+};
@@ -0,0 +1,45 @@
+import { ScriptScene, Take } from "../types";
+
+export const selectedTake = (scene: ScriptScene): Take | undefined =>
+  scene.takes?.find(take => take.id === scene.selectedTakeId);
+
+/**
+ * The scene fields that mirror its circle take. Everything downstream (gallery, Reel Player,
+ * exports, extensions) reads these, so circling a take is all it takes to swap the clip.
+ */
+export const circleTake = (scene: ScriptScene, takeId: string): Partial<ScriptScene> => {
+  const take = scene.takes?.find(t => t.id === takeId);
+  if (!take) return {};
+  return {
+    selectedTakeId: take.id,
+    videoUri: take.videoUri,
+    videoHandle: take.videoHandle,
+    renderedConfig: take.config,
+    imageBase64: take.startFrameBase64,
+    isExtension: take.isExtension,
+    matchesLastFrame: take.matchesLastFrame
+  };
+};
+
+/**
+ * Appends a new take to the scene and circles it.
+ */
+export const addTake = (scene: ScriptScene, fields: Omit<Take, 'id' | 'number' | 'createdAt'>): Partial<ScriptScene> => {
+  const take: Take = {
+    ...fields,
+    id: crypto.randomUUID(),
+    number: (scene.takes?.length ?? 0) + 1,
+    createdAt: new Date()
+  };
+  const takes = [...(scene.takes || []), take];
+  return { takes, ...circleTake({ ...scene, takes }, take.id) };
+};
+
+/**
+ * True when the scene's circle take extends a take of the previous scene that is no longer
+ * circled, so the cut between them no longer lines up until the extension is regenerated.
+ */
+export const isStaleExtension = (scene: ScriptScene, previous: ScriptScene | undefined): boolean => {
+  const take = selectedTake(scene);
+  return Boolean(take?.isExtension && take.sourceTakeId && previous && take.sourceTakeId !== previous.selectedTakeId);
+};
@@ -0,0 +1,354 @@
+import { ScriptScene, SceneTransition, TransitionType } from "../types";
+import { TRANSITION_LABELS, isCut, transitionInto } from "./transitions";
+import { createZip, ZipEntry } from "./zip";
+import { toFileStem } from "./download";
+import { buildCaptionCues, toSrt, toWebVtt } from "./captions";
+import { fetchClip } from "./geminiService";
+
+// Veo renders at 24 fps; timelines use the same rate so clip lengths stay frame-exact
+export const TIMELINE_FPS = 24;
+// Editors conventionally start the record timecode at 01:00:00:00
+const RECORD_START_FRAMES = 60 * 60 * TIMELINE_FPS;
+
+export interface ClipMedia {
+  path: string; // Relative to the timeline files, e.g. "clips/scene-01-intro.mp4"
+  frames: number;
+  width: number;
+  height: number;
+}
+
+export interface TimelineClip {
+  scene: ScriptScene;
+  media: ClipMedia;
+  recordIn: number; // Frame the clip starts at, from the start of the sequence
+  transition: SceneTransition; // Into this clip; the first clip always starts on a cut
+  transitionFrames: number; // 0 for cuts
+}
+
+export interface Timeline {
+  title: string;
+  clips: TimelineClip[];
+  frames: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Lays the scenes end to end. `media` maps scene ids to the clip file each one plays. The
+ * sequence takes the largest clip's frame size, so 720p extensions in a 1080p production are
+ * scaled up to fit rather than the whole cut being conformed down to them.
+ */
+export const buildTimeline = (title: string, scenes: ScriptScene[], media: Map<number, ClipMedia>): Timeline => {
+  const clips: TimelineClip[] = [];
+  let recordIn = 0;
+
+  for (const scene of scenes) {
+    const clipMedia = media.get(scene.id);
+    if (!clipMedia) continue;
+    const transition: SceneTransition = clips.length > 0 ? transitionInto(scene) : { type: TransitionType.CUT, durationMs: 0 };
+    const transitionFrames = isCut(transition) ? 0 : Math.max(1, Math.round((transition.durationMs / 1000) * TIMELINE_FPS));
+    clips.push({ scene, media: clipMedia, recordIn, transition, transitionFrames });
+    recordIn += clipMedia.frames;
+  }
+
+  const largest = clips.reduce<ClipMedia | undefined>(
+    (best, { media }) => !best || media.width * media.height > best.width * best.height ? media : best,
+    undefined
+  );
+  return {
+    title,
+    clips,
+    frames: recordIn,
+    width: largest?.width ?? 1920,
+    height: largest?.height ?? 1080
+  };
+};
+
+const clipName = (clip: TimelineClip) => `Scene ${clip.scene.id} - ${clip.scene.title}`;
+
+const toTimecode = (frames: number): string => {
+  const ff = frames % TIMELINE_FPS;
+  const totalSeconds = Math.floor(frames / TIMELINE_FPS);
+  return [Math.floor(totalSeconds / 3600), Math.floor(totalSeconds / 60) % 60, totalSeconds % 60, ff]
+    .map(n => String(n).padStart(2, '0'))
+    .join(':');
+};
+
+// Notes become single-line comments in every format
+const oneLine = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+// Markers carry the scene's narrative context and the Continuity QA note
+const clipMarkers = (scene: ScriptScene) => [
+  { name: 'Context', color: 'YELLOW', note: oneLine(scene.narrativeContext) },
+  ...(scene.feedback ? [{ name: 'QA', color: 'BLUE', note: oneLine(scene.feedback) }] : [])
+].filter(marker => marker.note);
+
+// -------------------------------------------------------------------------
+// CMX 3600 EDL
+// -------------------------------------------------------------------------
+
+/**
+ * EDL EXPORT: CMX 3600 with one event per clip. Transitions are written the CMX way, as a
+ * zero-length cut on the outgoing clip followed by a D (dissolve) or W001 (wipe) event into the
+ * incoming one. CMX has no dips or match cuts, so those are named in an EFFECT NAME comment;
+ * a dip is written as a dissolve of its full length.
+ */
+export const exportEdl = (timeline: Timeline): string => {
+  const lines = [`TITLE: ${oneLine(timeline.title).slice(0, 70)}`, 'FCM: NON-DROP FRAME', ''];
+  const event = (n: number, type: string, srcIn: number, srcOut: number, recIn: number, recOut: number) =>
+    `${String(n).padStart(3, '0')}  AX       AA/V  ${type.padEnd(8)} ${toTimecode(srcIn)} ${toTimecode(srcOut)} ${toTimecode(RECORD_START_FRAMES + recIn)} ${toTimecode(RECORD_START_FRAMES + recOut)}`;
+
+  timeline.clips.forEach((clip, i) => {
+    const n = i + 1;
+    const recOut = clip.recordIn + clip.media.frames;
+
+    if (clip.transitionFrames > 0) {
+      const previous = timeline.clips[i - 1];
+      const code = clip.transition.type === TransitionType.WIPE ? 'W001' : 'D';
+      lines.push(event(n, 'C', previous.media.frames, previous.media.frames, clip.recordIn, clip.recordIn));
+      lines.push(event(n, `${code.padEnd(5)}${String(clip.transitionFrames).padStart(3, '0')}`, 0, clip.media.frames, clip.recordIn, recOut));
+      lines.push(`* FROM CLIP NAME: ${clipName(previous)}`);
+      lines.push(`* TO CLIP NAME: ${clipName(clip)}`);
+    } else {
+      lines.push(event(n, 'C', 0, clip.media.frames, clip.recordIn, recOut));
+      lines.push(`* FROM CLIP NAME: ${clipName(clip)}`);
+    }
+    if (clip.transition.type !== TransitionType.CUT && clip.transition.type !== TransitionType.CROSS_DISSOLVE) {
+      lines.push(`* EFFECT NAME: ${TRANSITION_LABELS[clip.transition.type].toUpperCase()}`);
+    }
+    lines.push(`* SOURCE FILE: ${clip.media.path}`);
+    clipMarkers(clip.scene).forEach(marker => {
+      lines.push(`* LOC: ${toTimecode(RECORD_START_FRAMES + clip.recordIn)} ${marker.color.padEnd(7)} ${marker.name}: ${marker.note}`);
+    });
+    lines.push('');
+  });
+
+  return lines.join('\n');
+};
+
+// -------------------------------------------------------------------------
+// FCPXML
+// -------------------------------------------------------------------------
+
+const xml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Final Cut Pro's built-in transitions; it has no separate dip, so both dips use Fade To Color
+const FCP_TRANSITION_EFFECTS: Partial<Record<TransitionType, { name: string; uid: string }>> = {
+  [TransitionType.CROSS_DISSOLVE]: { name: 'Cross Dissolve', uid: 'FxPlug:4731E73A-8DAC-4113-9A30-AE85B1761265' },
+  [TransitionType.DIP_TO_BLACK]: { name: 'Fade To Color', uid: '.../Transitions.localized/Dissolves.localized/Fade To Color.localized/Fade To Color.motr' },
+  [TransitionType.DIP_TO_WHITE]: { name: 'Fade To Color', uid: '.../Transitions.localized/Dissolves.localized/Fade To Color.localized/Fade To Color.motr' },
+  [TransitionType.WIPE]: { name: 'Wipe', uid: '.../Transitions.localized/Wipes.localized/Wipe.localized/Wipe.motr' }
+};
+
+// FCPXML times are rational seconds; 24 fps frames are 100/2400s each
+const fcpTime = (frames: number) => `${frames * 100}/2400s`;
+
+/**
+ * FCPXML EXPORT: A version 1.9 library with one event and project. Clips reference the
+ * bundled files by relative path; transitions sit in the spine between the clips they join,
+ * dips as Fade To Color. Match cuts are plain cuts with nothing to render.
+ * Spine offsets are sequence time, which starts at the 01:00:00:00 timecode.
+ */
+export const exportFcpxml = (timeline: Timeline): string => {
+  const title = xml(timeline.title);
+
+  // The sequence format comes first; clips of another frame size get a format of their own
+  const formats = new Map<string, string>([[`${timeline.width}x${timeline.height}`, 'r1']]);
+  const formatFor = ({ width, height }: ClipMedia) => {
+    const size = `${width}x${height}`;
+    if (!formats.has(size)) formats.set(size, `r${formats.size + 1}`);
+    return formats.get(size)!;
+  };
+
+  const assets = timeline.clips.map((clip, i) =>
+    `    <asset id="a${i + 1}" name="${xml(clipName(clip))}" start="0s" duration="${fcpTime(clip.media.frames)}" hasVideo="1" hasAudio="1" format="${formatFor(clip.media)}">\n` +
+    `      <media-rep kind="original-media" src="${xml(encodeURI(clip.media.path))}"/>\n` +
+    `    </asset>`
+  );
+
+  // Only the effects the timeline uses are declared
+  const effects = new Map<string, { id: string; uid: string }>();
+  const effectFor = (type: TransitionType) => {
+    const { name, uid } = FCP_TRANSITION_EFFECTS[type]!;
+    if (!effects.has(name)) effects.set(name, { id: `e${effects.size + 1}`, uid });
+    return { name, id: effects.get(name)!.id };
+  };
+
+  const spine: string[] = [];
+  timeline.clips.forEach((clip, i) => {
+    if (clip.transitionFrames > 0) {
+      const effect = effectFor(clip.transition.type);
+      const offset = RECORD_START_FRAMES + clip.recordIn - Math.floor(clip.transitionFrames / 2);
+      spine.push(
+        `            <transition name="${TRANSITION_LABELS[clip.transition.type]}" offset="${fcpTime(offset)}" duration="${fcpTime(clip.transitionFrames)}">\n` +
+        `              <filter-video ref="${effect.id}" name="${effect.name}"/>\n` +
+        `            </transition>`
+      );
+    }
+    const markers = clipMarkers(clip.scene).map(marker =>
+      `              <marker start="0s" duration="${fcpTime(1)}" value="${xml(marker.name)}" note="${xml(marker.note)}"/>`
+    );
+    spine.push(
+      `            <asset-clip ref="a${i + 1}" name="${xml(clipName(clip))}" offset="${fcpTime(RECORD_START_FRAMES + clip.recordIn)}" duration="${fcpTime(clip.media.frames)}" start="0s">\n` +
+      (markers.length > 0 ? `${markers.join('\n')}\n` : '') +
+      `            </asset-clip>`
+    );
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<!DOCTYPE fcpxml>',
+    '<fcpxml version="1.9">',
+    '  <resources>',
+    ...[...formats].map(([size, id]) => {
+      const [width, height] = size.split('x');
+      return `    <format id="${id}" frameDuration="${fcpTime(1)}" width="${width}" height="${height}"/>`;
+    }),
+    ...[...effects].map(([name, { id, uid }]) => `    <effect id="${id}" name="${name}" uid="${xml(uid)}"/>`),
+    ...assets,
+    '  </resources>',
+    '  <library>',
+    `    <event name="${title}">`,
+    `      <project name="${title}">`,
+    `        <sequence format="r1" duration="${fcpTime(timeline.frames)}" tcStart="${fcpTime(RECORD_START_FRAMES)}" tcFormat="NDF">`,
+    '          <spine>',
+    ...spine,
+    '          </spine>',
+    '        </sequence>',
+    '      </project>',
+    '    </event>',
+    '  </library>',
+    '</fcpxml>',
+    ''
+  ].join('\n');
+};
+
+// -------------------------------------------------------------------------
+// OpenTimelineIO
+// -------------------------------------------------------------------------
+
+const rationalTime = (frames: number) => ({ OTIO_SCHEMA: 'RationalTime.1', rate: TIMELINE_FPS, value: frames });
+const timeRange = (start: number, duration: number) => ({
+  OTIO_SCHEMA: 'TimeRange.1',
+  start_time: rationalTime(start),
+  duration: rationalTime(duration)
+});
+
+/**
+ * OTIO EXPORT: A Timeline.1 document with one video track. Clips point at the bundled files
+ * through ExternalReferences. Dissolves are SMPTE_Dissolve transitions; OTIO has no other standard
+ * type, so dips and wipes are Custom_Transitions carrying the app's transition type in metadata.
+ */
+export const exportOtio = (timeline: Timeline): string => {
+  const children: object[] = [];
+
+  for (const clip of timeline.clips) {
+    if (clip.transitionFrames > 0) {
+      const half = Math.floor(clip.transitionFrames / 2);
+      children.push({
+        OTIO_SCHEMA: 'Transition.1',
+        name: TRANSITION_LABELS[clip.transition.type],
+        transition_type: clip.transition.type === TransitionType.CROSS_DISSOLVE ? 'SMPTE_Dissolve' : 'Custom_Transition',
+        in_offset: rationalTime(half),
+        out_offset: rationalTime(clip.transitionFrames - half),
+        metadata: { type: clip.transition.type }
+      });
+    }
+    children.push({
+      OTIO_SCHEMA: 'Clip.2',
+      name: clipName(clip),
+      source_range: timeRange(0, clip.media.frames),
+      media_references: {
+        DEFAULT_MEDIA: {
+          OTIO_SCHEMA: 'ExternalReference.1',
+          name: clip.media.path,
+          target_url: clip.media.path,
+          available_range: timeRange(0, clip.media.frames),
+          metadata: {}
+        }
+      },
+      active_media_reference_key: 'DEFAULT_MEDIA',
+      markers: clipMarkers(clip.scene).map(marker => ({
+        OTIO_SCHEMA: 'Marker.2',
+        name: marker.name,
+        color: marker.color,
+        marked_range: timeRange(0, 1),
+        comment: marker.note,
+        metadata: {}
+      })),
+      effects: [],
+      metadata: { sceneId: clip.scene.id, isExtension: Boolean(clip.scene.isExtension), transitionIn: clip.transition.type }
+    });
+  }
+
+  return JSON.stringify({
+    OTIO_SCHEMA: 'Timeline.1',
+    name: timeline.title,
+    global_start_time: rationalTime(RECORD_START_FRAMES),
+    tracks: {
+      OTIO_SCHEMA: 'Stack.1',
+      name: 'tracks',
+      children: [{ OTIO_SCHEMA: 'Track.1', name: 'Video 1', kind: 'Video', children, effects: [], markers: [], metadata: {} }],
+      effects: [],
+      markers: [],
+      metadata: {}
+    },
+    metadata: {}
+  }, null, 2);
+};
+
+// -------------------------------------------------------------------------
+// BUNDLE
+// -------------------------------------------------------------------------
+
+const readVideoMetadata = (blob: Blob): Promise<{ duration: number; width: number; height: number }> => {
+  const url = URL.createObjectURL(blob);
+  const video = document.createElement('video');
+  video.preload = 'metadata';
+  return new Promise<{ duration: number; width: number; height: number }>((resolve, reject) => {
+    video.onloadedmetadata = () => resolve({ duration: video.duration, width: video.videoWidth, height: video.videoHeight });
+    video.onerror = () => reject(new Error('Clip could not be decoded.'));
+    video.src = url;
+  }).finally(() => URL.revokeObjectURL(url));
+};
+
+/**
+ * Downloads every completed clip, reads its real duration and packs the clips together with
+ * the EDL, FCPXML and OTIO files (and captions, when the scenes have any) into one ZIP. The timelines reference the clips by their
+ * relative `clips/...` paths, so they relink once the archive is extracted.
+ */
+export const exportTimelineBundle = async (title: string, scenes: ScriptScene[], signal?: AbortSignal): Promise<Blob> => {
+  const stem = toFileStem(title);
+  const media = new Map<number, ClipMedia>();
+  const files: ZipEntry[] = [];
+
+  for (const scene of scenes) {
+    if (!scene.videoUri) continue;
+    const response = await fetchClip(scene.videoUri, signal);
+    if (!response.ok) throw new Error(`Scene ${scene.id}: could not download clip (${response.statusText}).`);
+    const blob = await response.blob();
+    const { duration, width, height } = await readVideoMetadata(blob);
+
+    const extension = blob.type.includes('webm') ? 'webm' : 'mp4';
+    const path = `clips/scene-${String(scene.id).padStart(2, '0')}-${toFileStem(scene.title)}.${extension}`;
+    media.set(scene.id, { path, frames: Math.round(duration * TIMELINE_FPS), width, height });
+    files.push({ path, data: new Uint8Array(await blob.arrayBuffer()) });
+  }
+
+  const timeline = buildTimeline(title, scenes, media);
+  const encoder = new TextEncoder();
+  const entries: ZipEntry[] = [
+    { path: `${stem}.edl`, data: encoder.encode(exportEdl(timeline)) },
+    { path: `${stem}.fcpxml`, data: encoder.encode(exportFcpxml(timeline)) },
+    { path: `${stem}.otio`, data: encoder.encode(exportOtio(timeline)) }
+  ];
+
+  // Captions timed to the same clip lengths, for importing as a subtitle track
+  const cues = buildCaptionCues(timeline.clips.map(clip => clip.scene), scene => (media.get(scene.id)!.frames / TIMELINE_FPS) * 1000);
+  if (cues.length > 0) {
+    entries.push({ path: `${stem}.vtt`, data: encoder.encode(toWebVtt(cues)) });
+    entries.push({ path: `${stem}.srt`, data: encoder.encode(toSrt(cues)) });
+  }
+  return createZip([...entries, ...files]);
+};
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { AgentLog, GenerationProvider } from '../types';
+import { mockProvider } from './mockService';
+import { reportExchange, traceProvider } from './trace';
+
+describe('traceProvider', () => {
+  it('records the prompt and raw reply the provider reports', async () => {
+    const provider: GenerationProvider = {
+      ...mockProvider,
+      rewritePrompt: async (visualPrompt, reason, signal) => {
+        reportExchange(signal, { prompt: `Rewrite "${visualPrompt}" (${reason})` });
+        reportExchange(signal, { response: '{"text": "a cola can"}' });
+        return 'a cola can';
+      }
+    };
+    const logs: AgentLog[] = [];
+
+    await traceProvider(provider, log => logs.push(log)).rewritePrompt('a Coke can', 'brand');
+
+    expect(logs[0].span).toMatchObject({
+      name: 'rewritePrompt',
+      input: { visualPrompt: 'a Coke can', reason: 'brand' },
+      output: 'a cola can',
+      prompt: 'Rewrite "a Coke can" (brand)',
+      response: '{"text": "a cola can"}'
+    });
+  });
+
+  it('passes the caller\'s abort on to the provider', async () => {
+    const provider: GenerationProvider = {
+      ...mockProvider,
+      lintPrompt: (_visualPrompt, signal) => new Promise((_, reject) => {
+        signal?.addEventListener('abort', () => reject(signal.reason), { once: true });
+      })
+    };
+    const logs: AgentLog[] = [];
+    const controller = new AbortController();
+
+    const call = traceProvider(provider, log => logs.push(log)).lintPrompt('a kitchen', controller.signal);
+    controller.abort(new Error('Stopped'));
+
+    await expect(call).rejects.toThrow('Stopped');
+    expect(logs[0].span?.outcome).toBe('cancelled');
+  });
+});
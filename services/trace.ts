@@ -0,0 +1,317 @@
+import { AgentLog, AgentRole, GenerationProvider, ProviderModels, TraceSpan } from "../types";
+
+// Strings longer than this that look like base64 (frames, images) are left out of traces
+const MAX_INLINE_BASE64 = 512;
+const BASE64 = /^[A-Za-z0-9+/]+={0,2}$/;
+
+const TRACER = { name: 'holmes-on-code', version: 'v1' };
+
+type AgentCall = Exclude<keyof GenerationProvider, 'id' | 'label' | 'models' | 'isReady'>;
+
+interface AgentCallInfo {
+  role: AgentRole;
+  params: string[]; // Argument names, in order; the signal comes next
+  model: (models: ProviderModels, args: any[]) => string | undefined;
+}
+
+const AGENT_CALLS: Record<AgentCall, AgentCallInfo> = {
+  parseScript: { role: AgentRole.PARSER, params: ['rawText'], model: m => m.text },
+  extractBible: { role: AgentRole.PARSER, params: ['scenes'], model: m => m.text },
+  checkContinuity: { role: AgentRole.CONTINUITY_QA, params: ['currentScene', 'previousScene'], model: m => m.text },
+  inspectContinuity: {
+    role: AgentRole.CONTINUITY_QA,
+    params: ['previousFrameBase64', 'startFrameBase64', 'currentScene', 'previousScene'],
+    model: m => m.text
+  },
+  lintPrompt: { role: AgentRole.CONTINUITY_QA, params: ['visualPrompt'], model: m => m.text },
+  rewritePrompt: { role: AgentRole.CONTINUITY_QA, params: ['visualPrompt', 'reason'], model: m => m.text },
+  generateStageHandImage: { role: AgentRole.STAGE_HAND, params: ['visualPrompt', 'config', 'referenceImages'], model: m => m.image },
+  fetchImageAsBase64: { role: AgentRole.STAGE_HAND, params: ['url'], model: () => undefined },
+  generateVideo: {
+    role: AgentRole.GENERATOR,
+    params: ['scene', 'previousSceneVideoHandle', 'shouldExtend', 'imageBase64', 'config', 'logCallback'],
+    model: (m, args) => args[2] && args[1] ? m.videoExtension : m.video
+  }
+};
+
+/**
+ * Copies `value` for a trace: base64 payloads become a size note, and signals and callbacks
+ * are dropped, so spans stay small enough to keep with the production.
+ */
+export const redact = (value: any): any => {
+  if (typeof value === 'string') {
+    return value.length > MAX_INLINE_BASE64 && BASE64.test(value)
+      ? `[base64, ${Math.round(value.length * 0.75 / 1024)} KB]`
+      : value;
+  }
+  if (typeof value === 'function' || (typeof AbortSignal !== 'undefined' && value instanceof AbortSignal)) return undefined;
+  if (value instanceof Date || value === null || typeof value !== 'object') return value;
+  if (Array.isArray(value)) return value.map(redact);
+  return Object.fromEntries(
+    Object.entries(value).map(([key, v]) => [key, redact(v)]).filter(([, v]) => v !== undefined)
+  );
+};
+
+// The prompt and raw reply of each traced call in flight, keyed by the signal its provider was given
+const exchanges = new WeakMap<AbortSignal, Pick<TraceSpan, 'prompt' | 'response'>>();
+
+/**
+ * Lets a provider put the prompt it sent and the model's raw reply on the span of the call that
+ * was given `signal`. Later reports replace earlier ones, so a retried request keeps its last
+ * exchange. Does nothing for calls that aren't traced.
+ */
+export const reportExchange = (signal: AbortSignal | undefined, exchange: Pick<TraceSpan, 'prompt' | 'response'>) => {
+  const current = signal && exchanges.get(signal);
+  if (current) Object.assign(current, redact(exchange));
+};
+
+// The scene an agent call is about, when one of its arguments is a scene
+const sceneIdOf = (params: string[], args: any[]): number | undefined => {
+  const index = params.findIndex(p => p === 'scene' || p === 'currentScene');
+  return index === -1 ? undefined : args[index]?.id;
+};
+
+export const formatLatency = (ms: number) => ms < 1000 ? `${Math.round(ms)}ms` : `${(ms / 1000).toFixed(1)}s`;
+
+// The log line shown for a span
+const spanEntry = (span: TraceSpan): Pick<AgentLog, 'message' | 'status'> => ({
+  message: `${span.name}${span.model ? ` · ${span.model}` : ''} · ${span.outcome} in ${formatLatency(span.endTime - span.startTime)}`,
+  status: span.outcome === 'success' ? 'success' : span.outcome === 'error' ? 'error' : 'warning'
+});
+
+/**
+ * TRACER: Wraps a provider so every agent call is reported as a span log entry once it settles.
+ * `sceneId` pins calls that don't take a scene (e.g. Stage Hand) to the scene they serve.
+ * Each call gets its own signal, following the caller's, so the provider can attach the prompt
+ * and raw reply with `reportExchange`; spans from providers that don't report them go without.
+ */
+export const traceProvider = (
+  provider: GenerationProvider,
+  record: (entry: AgentLog) => void,
+  traceId?: string,
+  sceneId?: number
+): GenerationProvider => {
+  const traced = { ...provider };
+
+  (Object.keys(AGENT_CALLS) as AgentCall[]).forEach(name => {
+    const { role, params, model: modelOf } = AGENT_CALLS[name];
+    const call = provider[name] as (...args: any[]) => Promise<any>;
+
+    (traced as any)[name] = async (...args: any[]) => {
+      const signal: AbortSignal | undefined = args[params.length];
+      const startTime = Date.now();
+      const model = modelOf(provider.models, args);
+      const input = redact(Object.fromEntries(params.map((p, i) => [p, args[i]])));
+
+      const controller = new AbortController();
+      const forwardAbort = () => controller.abort(signal?.reason);
+      if (signal?.aborted) forwardAbort();
+      else signal?.addEventListener('abort', forwardAbort, { once: true });
+      const exchange: Pick<TraceSpan, 'prompt' | 'response'> = {};
+      exchanges.set(controller.signal, exchange);
+      const callArgs = [...args];
+      callArgs[params.length] = controller.signal;
+
+      const finish = (outcome: TraceSpan['outcome'], result: { output?: any; error?: string }) => {
+        signal?.removeEventListener('abort', forwardAbort);
+        const span: TraceSpan = {
+          spanId: crypto.randomUUID(),
+          name,
+          model,
+          input,
+          ...exchange,
+          ...result,
+          startTime,
+          endTime: Date.now(),
+          outcome
+        };
+        record({
+          id: crypto.randomUUID(),
+          timestamp: new Date(span.endTime),
+          role,
+          ...spanEntry(span),
+          sceneId: sceneIdOf(params, args) ?? sceneId,
+          traceId,
+          span
+        });
+      };
+
+      try {
+        const output = await call(...callArgs);
+        finish('success', { output: redact(output) });
+        return output;
+      } catch (error: any) {
+        finish(signal?.aborted ? 'cancelled' : 'error', { error: error?.message ?? String(error) });
+        throw error;
+      }
+    };
+  });
+
+  return traced;
+};
+
+// Log messages lead with the scene they are about ("Scene 3: ..."); used when no scene id was given
+export const sceneOfMessage = (message: string): number | undefined => {
+  const match = message.match(/^Scene (\d+)\b/);
+  return match ? Number(match[1]) : undefined;
+};
+
+// -------------------------------------------------------------------------
+// JSONL (Genkit trace format)
+// -------------------------------------------------------------------------
+
+const json = (value: any) => value === undefined ? undefined : JSON.stringify(value);
+
+/**
+ * Serializes the logs as JSONL, one Genkit `TraceData` object per Director run. Each run gets a
+ * root span carrying its narration as time events, with one child span per agent call, so the
+ * files open in the Genkit trace viewer. Logs from outside a run are grouped into one trace.
+ */
+export const toTraceJsonl = (logs: AgentLog[]): string => {
+  const runs = new Map<string, AgentLog[]>();
+  const sessionId = crypto.randomUUID();
+  logs.forEach(log => {
+    const traceId = log.traceId ?? sessionId;
+    runs.set(traceId, [...(runs.get(traceId) || []), log]);
+  });
+
+  const lines = [...runs].map(([traceId, entries]) => {
+    const start = Math.min(...entries.map(e => e.span?.startTime ?? e.timestamp.getTime()));
+    const end = Math.max(...entries.map(e => e.span?.endTime ?? e.timestamp.getTime()));
+    const rootId = crypto.randomUUID();
+    const displayName = traceId === sessionId ? 'session' : 'director-run';
+
+    const root = {
+      spanId: rootId,
+      traceId,
+      startTime: start,
+      endTime: end,
+      displayName,
+      attributes: { 'genkit:name': displayName, 'genkit:type': 'flow', 'genkit:isRoot': true, 'genkit:path': `/{${displayName}}` },
+      instrumentationLibrary: TRACER,
+      spanKind: 'INTERNAL',
+      status: { code: entries.some(e => e.status === 'error') ? 2 : 0 },
+      timeEvents: {
+        timeEvent: entries.filter(e => !e.span).map(e => ({
+          time: e.timestamp.getTime(),
+          annotation: {
+            description: e.message,
+            attributes: {
+              'holmes:logId': e.id,
+              'holmes:role': e.role,
+              'holmes:status': e.status,
+              'holmes:sceneId': e.sceneId,
+              'holmes:metadata': json(e.metadata)
+            }
+          }
+        }))
+      }
+    };
+
+    const children = entries.filter(e => e.span).map(({ id, role, sceneId, span }) => ({
+      spanId: span!.spanId,
+      traceId,
+      parentSpanId: rootId,
+      startTime: span!.startTime,
+      endTime: span!.endTime,
+      displayName: span!.name,
+      attributes: {
+        'genkit:name': span!.name,
+        'genkit:type': 'action',
+        'genkit:metadata:subtype': span!.model ? 'model' : 'util',
+        'genkit:path': `/{${displayName}}/{${span!.name}}`,
+        'genkit:input': json(span!.input),
+        'genkit:output': json(span!.output),
+        'holmes:prompt': span!.prompt,
+        'holmes:response': span!.response,
+        'genkit:state': span!.outcome === 'success' ? 'success' : 'error',
+        'holmes:logId': id,
+        'holmes:role': role,
+        'holmes:sceneId': sceneId,
+        'holmes:model': span!.model,
+        'holmes:outcome': span!.outcome
+      },
+      instrumentationLibrary: TRACER,
+      spanKind: 'INTERNAL',
+      sameProcessAsParentSpan: { value: true },
+      status: span!.outcome === 'success' ? { code: 0 } : { code: 2, message: span!.error ?? span!.outcome }
+    }));
+
+    return JSON.stringify({
+      traceId,
+      displayName,
+      startTime: start,
+      endTime: end,
+      spans: Object.fromEntries([root, ...children].map(span => [span.spanId, span]))
+    });
+  });
+
+  return lines.length > 0 ? `${lines.join('\n')}\n` : '';
+};
+
+const parseJson = (value: unknown) => typeof value === 'string' ? JSON.parse(value) : undefined;
+
+/**
+ * Reads JSONL written by `toTraceJsonl` back into log entries, oldest first. Spans from other
+ * Genkit apps are read too, as agent calls by the Director.
+ */
+export const fromTraceJsonl = (text: string): AgentLog[] => {
+  const logs: AgentLog[] = [];
+
+  text.split('\n').filter(line => line.trim()).forEach((line, i) => {
+    let trace: any;
+    try {
+      trace = JSON.parse(line);
+    } catch {
+      throw new Error(`Line ${i + 1} is not valid JSON.`);
+    }
+    if (!trace?.traceId || typeof trace.spans !== 'object') throw new Error(`Line ${i + 1} is not a trace.`);
+    const traceId = trace.displayName === 'session' ? undefined : trace.traceId;
+
+    Object.values<any>(trace.spans).forEach(span => {
+      const attributes = span.attributes || {};
+      if (!span.parentSpanId) {
+        (span.timeEvents?.timeEvent || []).forEach((event: any) => {
+          const a = event.annotation?.attributes || {};
+          logs.push({
+            id: a['holmes:logId'] ?? crypto.randomUUID(),
+            timestamp: new Date(event.time),
+            role: a['holmes:role'] ?? AgentRole.DIRECTOR,
+            message: event.annotation?.description ?? '',
+            status: a['holmes:status'] ?? 'info',
+            metadata: parseJson(a['holmes:metadata']),
+            sceneId: a['holmes:sceneId'],
+            traceId
+          });
+        });
+        return;
+      }
+
+      const outcome: TraceSpan['outcome'] = attributes['holmes:outcome'] ?? (span.status?.code === 2 ? 'error' : 'success');
+      const traced: TraceSpan = {
+        spanId: span.spanId,
+        name: attributes['genkit:name'] ?? span.displayName,
+        model: attributes['holmes:model'],
+        input: parseJson(attributes['genkit:input']) ?? {},
+        output: parseJson(attributes['genkit:output']),
+        prompt: attributes['holmes:prompt'],
+        response: attributes['holmes:response'],
+        error: outcome === 'success' ? undefined : span.status?.message,
+        startTime: span.startTime,
+        endTime: span.endTime,
+        outcome
+      };
+      logs.push({
+        id: attributes['holmes:logId'] ?? crypto.randomUUID(),
+        timestamp: new Date(span.endTime),
+        role: attributes['holmes:role'] ?? AgentRole.DIRECTOR,
+        ...spanEntry(traced),
+        sceneId: attributes['holmes:sceneId'],
+        traceId,
+        span: traced
+      });
+    });
+  });
+
+  return logs.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+};
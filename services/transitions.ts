@@ -0,0 +1,90 @@
+import { ScriptScene, SceneTransition, TransitionType } from "../types";
+
+export const TRANSITION_LABELS: Record<TransitionType, string> = {
+  [TransitionType.CUT]: 'Hard Cut',
+  [TransitionType.MATCH_CUT]: 'Match Cut',
+  [TransitionType.CROSS_DISSOLVE]: 'Cross Dissolve',
+  [TransitionType.DIP_TO_BLACK]: 'Dip to Black',
+  [TransitionType.DIP_TO_WHITE]: 'Dip to White',
+  [TransitionType.WIPE]: 'Wipe'
+};
+
+export const DEFAULT_TRANSITION_MS: Record<TransitionType, number> = {
+  [TransitionType.CUT]: 0,
+  [TransitionType.MATCH_CUT]: 0,
+  [TransitionType.CROSS_DISSOLVE]: 500,
+  [TransitionType.DIP_TO_BLACK]: 1000,
+  [TransitionType.DIP_TO_WHITE]: 1000,
+  [TransitionType.WIPE]: 500
+};
+
+// How the transition reads in a screenplay; Fountain import and export use these
+const SCREENPLAY_TRANSITIONS: Record<TransitionType, string> = {
+  [TransitionType.CUT]: 'CUT TO:',
+  [TransitionType.MATCH_CUT]: 'MATCH CUT TO:',
+  [TransitionType.CROSS_DISSOLVE]: 'DISSOLVE TO:',
+  [TransitionType.DIP_TO_BLACK]: 'FADE TO BLACK.',
+  [TransitionType.DIP_TO_WHITE]: 'FADE TO WHITE.',
+  [TransitionType.WIPE]: 'WIPE TO:'
+};
+
+// Checked in order, so the more specific names come first
+const TRANSITION_NAMES: [RegExp, TransitionType][] = [
+  [/match/i, TransitionType.MATCH_CUT],
+  [/dissolve|cross.?fade/i, TransitionType.CROSS_DISSOLVE],
+  [/white/i, TransitionType.DIP_TO_WHITE],
+  [/fade|dip|black/i, TransitionType.DIP_TO_BLACK],
+  [/wipe/i, TransitionType.WIPE],
+  [/cut/i, TransitionType.CUT]
+];
+
+// Has no duration, so players and exports switch clips on the frame
+export const isCut = (transition: SceneTransition) =>
+  transition.type === TransitionType.CUT || transition.type === TransitionType.MATCH_CUT || transition.durationMs <= 0;
+
+export const isDip = (transition: SceneTransition) =>
+  transition.type === TransitionType.DIP_TO_BLACK || transition.type === TransitionType.DIP_TO_WHITE;
+
+export const dipColor = (transition: SceneTransition) =>
+  transition.type === TransitionType.DIP_TO_WHITE ? '#fff' : '#000';
+
+/**
+ * The transition into `scene` from the one before it. Without an explicit choice, an
+ * extension cuts straight on from its source shot and every other scene dips to black.
+ */
+export const transitionInto = (scene: ScriptScene): SceneTransition =>
+  scene.transitionIn ?? (scene.isExtension || scene.matchesLastFrame
+    ? { type: TransitionType.CUT, durationMs: 0 }
+    : { type: TransitionType.DIP_TO_BLACK, durationMs: DEFAULT_TRANSITION_MS[TransitionType.DIP_TO_BLACK] });
+
+/**
+ * Milliseconds the transition takes from the end of the outgoing clip and from the start of
+ * the incoming one. A dip fades out and back in; dissolves and wipes play over the incoming
+ * clip, blending from the outgoing clip's last frame.
+ */
+export const transitionSpan = (transition: SceneTransition): { outMs: number; inMs: number } => {
+  if (isCut(transition)) return { outMs: 0, inMs: 0 };
+  if (isDip(transition)) return { outMs: transition.durationMs / 2, inMs: transition.durationMs / 2 };
+  return { outMs: 0, inMs: transition.durationMs };
+};
+
+/**
+ * Reads a transition from free text: screenplay transitions ("DISSOLVE TO:", "SMASH CUT TO:"),
+ * labels or enum names, optionally followed by a duration ("800ms", "1.5s").
+ */
+export const parseTransition = (text: string): SceneTransition | undefined => {
+  const type = TRANSITION_NAMES.find(([pattern]) => pattern.test(text))?.[1];
+  if (!type) return undefined;
+
+  const duration = text.match(/(\d+(?:\.\d+)?)\s*(ms|s)\b/i);
+  const durationMs = duration
+    ? Math.round(Number(duration[1]) * (duration[2].toLowerCase() === 's' ? 1000 : 1))
+    : DEFAULT_TRANSITION_MS[type];
+  return { type, durationMs };
+};
+
+// Screenplay line for a transition; non-default durations are appended so they survive a round trip
+export const toScreenplayTransition = (transition: SceneTransition): string => {
+  const line = SCREENPLAY_TRANSITIONS[transition.type];
+  return transition.durationMs === DEFAULT_TRANSITION_MS[transition.type] ? line : `${line} ${transition.durationMs}MS`;
+};
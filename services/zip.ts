@@ -0,0 +1,62 @@
+import { crc32 } from "./crc32";
+
+export interface ZipEntry {
+  path: string; // Forward slashes, e.g. "clips/scene-01.mp4"
+  data: Uint8Array;
+}
+
+const encoder = new TextEncoder();
+
+// Fixed DOS timestamp (1980-01-01); archive contents don't depend on when they were built
+const DOS_TIME = 0;
+const DOS_DATE = (1 << 5) | 1;
+
+const header = (fields: [number, 2 | 4][]): Uint8Array => {
+  const bytes = new Uint8Array(fields.reduce((sum, [, size]) => sum + size, 0));
+  const view = new DataView(bytes.buffer);
+  let offset = 0;
+  for (const [value, size] of fields) {
+    if (size === 2) view.setUint16(offset, value, true);
+    else view.setUint32(offset, value, true);
+    offset += size;
+  }
+  return bytes;
+};
+
+/**
+ * ZIP WRITER: Packs files into an uncompressed ("stored") ZIP archive. Videos don't compress
+ * further, so storing keeps this small and fast. No ZIP64, so entries must stay under 4 GB.
+ */
+export const createZip = (entries: ZipEntry[]): Blob => {
+  const parts: BlobPart[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.path);
+    const crc = crc32(entry.data);
+    const size = entry.data.length;
+
+    // Local file header; bit 11 marks the name as UTF-8
+    const local = header([
+      [0x04034b50, 4], [20, 2], [0x0800, 2], [0, 2], [DOS_TIME, 2], [DOS_DATE, 2],
+      [crc, 4], [size, 4], [size, 4], [name.length, 2], [0, 2]
+    ]);
+    parts.push(local, name, entry.data);
+
+    central.push(header([
+      [0x02014b50, 4], [20, 2], [20, 2], [0x0800, 2], [0, 2], [DOS_TIME, 2], [DOS_DATE, 2],
+      [crc, 4], [size, 4], [size, 4], [name.length, 2], [0, 2], [0, 2], [0, 2], [0, 2], [0, 4], [offset, 4]
+    ]), name);
+
+    offset += local.length + name.length + size;
+  }
+
+  const centralSize = central.reduce((sum, part) => sum + part.length, 0);
+  const end = header([
+    [0x06054b50, 4], [0, 2], [0, 2], [entries.length, 2], [entries.length, 2],
+    [centralSize, 4], [offset, 4], [0, 2]
+  ]);
+
+  return new Blob([...parts, ...central, end], { type: 'application/zip' });
+};
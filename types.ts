@@ -10,16 +10,43 @@ export enum SceneStatus {
   IDLE = 'IDLE',
   ANALYZING = 'ANALYZING',
   PREPARING_ASSETS = 'PREPARING_ASSETS',
+  STORYBOARD = 'STORYBOARD', // Start frame ready, waiting for approval before the Generator runs
+  QUEUED = 'QUEUED', // Through QA, waiting for a free generation slot
   GENERATING = 'GENERATING',
   COMPLETED = 'COMPLETED',
+  CANCELLED = 'CANCELLED',
+  BLOCKED = 'BLOCKED', // Rejected by a safety filter; the prompt needs rewriting
   ERROR = 'ERROR'
 }
 
+// Why a generation call failed, which decides whether the Director retries, rewrites or skips
+export enum GenerationErrorKind {
+  QUOTA = 'QUOTA', // Rate limit or quota exhausted; wait, then resume
+  SAFETY = 'SAFETY', // Safety filter rejection; rewrite the prompt
+  INVALID_INPUT = 'INVALID_INPUT', // Bad request (prompt, image or settings); fix before retrying
+  TRANSIENT = 'TRANSIENT', // Network or server hiccup; retried automatically
+  TIMEOUT = 'TIMEOUT' // The scene's deadline passed before the operation finished
+}
+
+export interface DialogueLine {
+  character: string;
+  parenthetical?: string;
+  text: string;
+}
+
+// One caption for a scene; its timing is worked out from the clip's length
+export interface CaptionLine {
+  speaker?: string; // Omitted for narration and on-screen text
+  text: string;
+}
+
 export interface ScriptScene {
   id: number;
   title: string;
   visualPrompt: string; // The core prompt for Veo
   narrativeContext: string; // Context for the QA agent
+  dialogue?: DialogueLine[]; // Spoken lines, when the script format carries them (e.g. Fountain)
+  captions?: CaptionLine[]; // Spoken lines and narration shown to viewers, in order
   imageUrl?: string; // Optional URL parsed from script
   imageBase64?: string; // The raw data for Veo (fetched from URL or generated)
   status: SceneStatus;
@@ -27,6 +54,75 @@ export interface ScriptScene {
   videoHandle?: any; // To store the opaque handle for extensions
   feedback?: string;
   isExtension?: boolean;
+  matchesLastFrame?: boolean; // Shot from the previous clip's last frame (ContinuityMode.MATCH_LAST_FRAME)
+  transitionIn?: SceneTransition; // How the cut into this scene is played; defaults from isExtension
+  error?: string; // Failure reason when status is ERROR or BLOCKED
+  failureKind?: GenerationErrorKind; // Set when the failure was classified
+  generationOverrides?: Partial<GenerationConfig>; // Per-scene settings on top of the production's
+  renderedConfig?: GenerationConfig; // Settings the current video was actually generated with
+  configConflicts?: string[]; // Model limits that changed how this scene was generated
+  storyboardDecision?: StoryboardDecision; // Set while the production runs in storyboard mode
+  continuityFindings?: ContinuityFinding[]; // Visual QA of the start frame against the previous clip's last frame
+  promptLint?: PromptLint; // Pre-flight safety check of the visual prompt, run before any video spend
+  promptRewrites?: PromptRewrite[]; // Visual prompts replaced after a safety rejection, oldest first
+  takes?: Take[]; // Every generation attempt, oldest first
+  selectedTakeId?: string; // The circle take; videoUri, videoHandle etc. mirror it
+}
+
+/** One generation attempt for a scene, kept so earlier takes can be circled again. */
+export interface Take {
+  id: string;
+  number: number; // 1-based, in shooting order
+  createdAt: Date;
+  prompt: string; // Exactly what the generator was sent, bible notes included
+  model: string;
+  config: GenerationConfig;
+  seed?: number; // Set when the provider reports the seed it used
+  startFrameBase64?: string;
+  isExtension: boolean;
+  matchesLastFrame?: boolean;
+  sourceTakeId?: string; // The previous scene's take this one extends
+  videoUri: string;
+  videoHandle?: any;
+}
+
+export enum TransitionType {
+  CUT = 'CUT',
+  MATCH_CUT = 'MATCH_CUT',
+  CROSS_DISSOLVE = 'CROSS_DISSOLVE',
+  DIP_TO_BLACK = 'DIP_TO_BLACK',
+  DIP_TO_WHITE = 'DIP_TO_WHITE',
+  WIPE = 'WIPE'
+}
+
+export interface SceneTransition {
+  type: TransitionType;
+  durationMs: number; // Total length; a dip spends half fading out and half fading in
+}
+
+export enum StoryboardDecision {
+  PENDING = 'PENDING',
+  APPROVED = 'APPROVED',
+  REJECTED = 'REJECTED'
+}
+
+export enum BibleEntryKind {
+  CHARACTER = 'CHARACTER',
+  LOCATION = 'LOCATION'
+}
+
+/**
+ * A recurring character or location with its canonical look, injected into
+ * every Stage Hand and Veo prompt for scenes that mention it.
+ */
+export interface BibleEntry {
+  id: string;
+  kind: BibleEntryKind;
+  name: string;
+  aliases: string[]; // Other names the script uses, e.g. "Mike Holmes" / "Mike"
+  description: string;
+  referenceImageUrl?: string;
+  referenceImageBase64?: string; // Uploaded, or fetched from referenceImageUrl on first use
 }
 
 export interface AgentLog {
@@ -36,9 +132,201 @@ export interface AgentLog {
   message: string;
   metadata?: Record<string, any>;
   status: 'info' | 'success' | 'warning' | 'error' | 'thinking';
+  sceneId?: number;
+  traceId?: string; // The Director run the entry belongs to
+  span?: TraceSpan; // Set when the entry records an agent call
+}
+
+/** One agent call made through a provider, with what went in and what came back. */
+export interface TraceSpan {
+  spanId: string;
+  name: string; // Provider method, e.g. `checkContinuity`
+  model?: string;
+  input: Record<string, any>; // Arguments by name; large images are replaced by a size note
+  output?: any; // The raw result, redacted the same way
+  prompt?: string; // The prompt the provider sent, when it reports one
+  response?: string; // The model's raw reply, when the provider reports one
+  error?: string;
+  startTime: number; // Epoch milliseconds
+  endTime: number;
+  outcome: 'success' | 'error' | 'cancelled';
 }
 
 export interface GenerationConfig {
   resolution: '720p' | '1080p';
   aspectRatio: '16:9' | '9:16';
-}
\ No newline at end of file
+}
+
+export enum ParseMode {
+  STRUCTURED = 'STRUCTURED', // Local parser for the SCENE / Visual / Context layout
+  FOUNTAIN = 'FOUNTAIN', // Local parser for Fountain screenplays
+  FREEFORM = 'FREEFORM' // LLM parser for prose scripts
+}
+
+export interface ScriptParseIssue {
+  line: number; // 1-based
+  message: string;
+}
+
+export interface ScriptParseResult {
+  scenes: ScriptScene[];
+  errors: ScriptParseIssue[];
+}
+
+export interface ProductionProject {
+  id: string;
+  name: string;
+  scriptText: string;
+  providerId: ProviderId;
+  generationConfig?: GenerationConfig; // Missing on productions saved before settings existed
+  budgetUsd?: number; // Spend ceiling the Director asks before exceeding; unset means no cap
+  bible?: BibleEntry[];
+  spend?: SpendEntry[];
+  scenes: ScriptScene[];
+  logs: AgentLog[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Everything about a production except the state that changes while it runs
+export type ProjectMeta = Omit<ProductionProject, 'scenes' | 'logs' | 'bible' | 'spend' | 'updatedAt'>;
+
+/**
+ * One billable agent call that was actually made, priced at the rates in services/costs.
+ */
+export interface SpendEntry {
+  id: string;
+  timestamp: Date;
+  sceneId?: number; // Unset for production-level calls (parsing, bible extraction)
+  role: AgentRole;
+  model: string;
+  units: number; // Calls, images or seconds of video, depending on the model's rate
+  usd: number;
+}
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  sceneCount: number;
+  completedCount: number;
+  updatedAt: Date;
+}
+
+export enum ProviderId {
+  GEMINI = 'GEMINI',
+  MOCK = 'MOCK'
+}
+
+// Model names a provider's calls are billed against
+export interface ProviderModels {
+  text: string; // Parser, Continuity QA and bible extraction
+  image: string; // Stage Hand start frames
+  video: string; // Fresh shots
+  videoExtension: string; // Extensions of the previous clip
+}
+
+/** How a scene picks up from the one before it. */
+export enum ContinuityMode {
+  FRESH_SHOT = 'FRESH_SHOT', // New start frame from Stage Hand
+  EXTEND = 'EXTEND', // Veo continues the previous clip
+  MATCH_LAST_FRAME = 'MATCH_LAST_FRAME' // New clip starting from the previous clip's last frame
+}
+
+export interface ContinuityResult {
+  mode: ContinuityMode;
+  reasoning: string;
+}
+
+export enum ContinuityCategory {
+  WARDROBE = 'WARDROBE',
+  PROPS = 'PROPS',
+  LIGHTING = 'LIGHTING',
+  SET = 'SET'
+}
+
+export enum ContinuitySeverity {
+  LOW = 'LOW', // Noticeable only on close inspection
+  MEDIUM = 'MEDIUM', // Visible on the cut
+  HIGH = 'HIGH' // Breaks the cut; the start frame should be redone
+}
+
+/** One concrete mismatch between the previous clip's last frame and a scene's start frame. */
+export interface ContinuityFinding {
+  category: ContinuityCategory;
+  severity: ContinuitySeverity;
+  description: string;
+}
+
+export enum PromptRiskCategory {
+  REAL_PERSON = 'REAL_PERSON',
+  BRAND = 'BRAND',
+  VIOLENCE = 'VIOLENCE',
+  OTHER = 'OTHER'
+}
+
+/** Something in a visual prompt that a safety filter is likely to refuse. */
+export interface PromptRisk {
+  category: PromptRiskCategory;
+  excerpt: string; // The words that carry the risk, as written in the prompt
+  reason: string;
+}
+
+export interface PromptLint {
+  prompt: string; // The visual prompt as checked; a lint for an edited prompt is stale
+  risks: PromptRisk[];
+  suggestedPrompt?: string; // A compliant rewrite, when there are risks
+}
+
+/** A visual prompt replaced after a safety rejection, or by accepting a pre-flight suggestion. */
+export interface PromptRewrite {
+  originalPrompt: string;
+  rewrittenPrompt: string;
+  reason: string; // The rejection, or the risks the suggestion addresses
+  timestamp: Date;
+}
+
+export interface VideoResult {
+  uri: string;
+  handle: any; // Opaque, provider-specific handle used for extensions
+  seed?: number; // The seed the clip was generated with, when the provider exposes it
+}
+
+/**
+ * A generation backend. Every agent call the Director makes goes through one of these,
+ * so the pipeline can run against Google (Gemini + Veo) or fully offline.
+ * Each call accepts an AbortSignal and rejects with its reason once aborted.
+ */
+export interface GenerationProvider {
+  id: ProviderId;
+  label: string;
+  models: ProviderModels;
+  isReady: () => Promise<boolean>;
+  parseScript: (rawText: string, signal?: AbortSignal) => Promise<ScriptScene[]>;
+  checkContinuity: (currentScene: ScriptScene, previousScene: ScriptScene | null, signal?: AbortSignal) => Promise<ContinuityResult>;
+  inspectContinuity: (
+    previousFrameBase64: string, // Last frame of the previous clip
+    startFrameBase64: string, // Candidate start frame for the current scene
+    currentScene: ScriptScene,
+    previousScene: ScriptScene,
+    signal?: AbortSignal
+  ) => Promise<ContinuityFinding[]>;
+  extractBible: (scenes: ScriptScene[], signal?: AbortSignal) => Promise<BibleEntry[]>;
+  lintPrompt: (visualPrompt: string, signal?: AbortSignal) => Promise<PromptLint>;
+  rewritePrompt: (visualPrompt: string, reason: string, signal?: AbortSignal) => Promise<string>;
+  generateStageHandImage: (
+    visualPrompt: string,
+    config: GenerationConfig,
+    referenceImages: string[],
+    signal?: AbortSignal
+  ) => Promise<string>;
+  fetchImageAsBase64: (url: string, signal?: AbortSignal) => Promise<string>;
+  generateVideo: (
+    scene: ScriptScene,
+    previousSceneVideoHandle: any | undefined,
+    shouldExtend: boolean,
+    imageBase64: string | undefined,
+    config: GenerationConfig,
+    logCallback: (log: AgentLog) => void,
+    signal?: AbortSignal
+  ) => Promise<VideoResult>;
+}